@@ -0,0 +1,55 @@
+import { FIXED_TIMESTEP, SuikaWorld, WORLD_HEIGHT, WORLD_WIDTH, shotAim } from './world.js';
+// Default cap on the length of a headless game (30 simulated minutes)
+const DEFAULT_MAX_FRAMES = Math.round(30 * 60 / FIXED_TIMESTEP);
+/**
+ * Plays a whole seeded game with a strategy, shooting as soon as each fruit is ready
+ * The same strategy state, options and seed always give the same result
+ */
+export function playGame(strategy, options) {
+    const world = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT, {
+        seed: options.seed,
+        mode: options.mode,
+        theme: options.theme,
+        level: options.level,
+        specialRate: options.specialRate
+    });
+    world.reset(options.seed);
+    let maxRank = world.fruits.reduce((rank, fruit) => Math.max(rank, fruit.typeIndex), 0);
+    world.on('merge', (event) => {
+        maxRank = Math.max(maxRank, event.fruit.typeIndex);
+    });
+    const maxFrames = options.maxFrames !== undefined ? options.maxFrames : DEFAULT_MAX_FRAMES;
+    const maxShots = options.maxShots !== undefined ? options.maxShots : Infinity;
+    let lastShotFrame = world.frame;
+    while (!world.gameOver && world.frame < maxFrames) {
+        if (options.shotFrames !== undefined && world.frame - lastShotFrame >= options.shotFrames) {
+            world.skipReload();
+        }
+        const fruitToLaunch = world.fruitToLaunch;
+        if (fruitToLaunch) {
+            // Stop once the last allowed launch had its steps
+            if (world.shots >= maxShots)
+                break;
+            maxRank = Math.max(maxRank, fruitToLaunch.typeIndex);
+            const shot = strategy.chooseShot({
+                width: world.width,
+                height: world.height,
+                fruits: world.fruits,
+                fruitToLaunch,
+                fruitInQueue: world.fruitInQueue,
+                snapshot: () => world.snapshot()
+            });
+            world.launch(shotAim(shot.angle, shot.power), shot.offset);
+            lastShotFrame = world.frame;
+        }
+        world.step();
+    }
+    return {
+        seed: options.seed,
+        score: world.score,
+        shots: world.shots,
+        maxRank,
+        frames: world.frame,
+        endReason: world.endReason
+    };
+}
@@ -0,0 +1,110 @@
+import { Mulberry32 } from './random.js';
+import { FIXED_TIMESTEP, MAX_AIM_DISTANCE, SuikaWorld, shotAim } from './world.js';
+/**
+ * Shoots anywhere into the upper half, at any power
+ * The baseline every other strategy should beat
+ */
+export class RandomStrategy {
+    constructor(seed = 1) {
+        this.name = 'random';
+        this.random = new Mulberry32(seed);
+    }
+    chooseShot() {
+        return {
+            angle: -Math.PI * this.random.next(),
+            power: 0.3 + 0.7 * this.random.next()
+        };
+    }
+}
+/**
+ * Shoots straight at the nearest fruit of the same type, hard enough to reach it
+ * Spreads the shots over the table when there is no such fruit
+ */
+export class GreedyStrategy {
+    constructor() {
+        this.name = 'greedy';
+    }
+    chooseShot(view) {
+        return greedyShot(view);
+    }
+}
+/**
+ * Tries a fan of shots on a copy of the game and keeps the one scoring the most
+ * Ties are broken by the least filled table, the greedy shot is always among the candidates
+ */
+export class LookaheadStrategy {
+    constructor(angles = 12, // Directions tried over the upper half
+    powers = [0.4, 0.8], horizon = 2 // Simulated seconds after each candidate shot
+    ) {
+        this.angles = angles;
+        this.powers = powers;
+        this.horizon = horizon;
+        this.name = 'lookahead';
+        this.scratch = null; // Copy of the game the candidates are played on
+    }
+    chooseShot(view) {
+        const snapshot = view.snapshot();
+        if (!this.scratch || this.scratch.width !== view.width || this.scratch.height !== view.height) {
+            this.scratch = new SuikaWorld(view.width, view.height);
+        }
+        const scratch = this.scratch;
+        const candidates = [greedyShot(view)];
+        for (let i = 0; i < this.angles; i++) {
+            const angle = -Math.PI * (i + 0.5) / this.angles;
+            this.powers.forEach((power) => candidates.push({ angle, power }));
+        }
+        const steps = Math.round(this.horizon / FIXED_TIMESTEP);
+        let best = candidates[0];
+        let bestScore = -Infinity;
+        let bestFill = Infinity;
+        candidates.forEach((shot) => {
+            scratch.restore(snapshot);
+            scratch.launch(shotAim(shot.angle, shot.power), shot.offset);
+            for (let i = 0; i < steps && !scratch.gameOver; i++) {
+                scratch.step();
+            }
+            const score = scratch.gameOver ? -Infinity : scratch.score;
+            const fill = scratch.calculateFillPercentage();
+            if (score > bestScore || (score === bestScore && fill < bestFill)) {
+                best = shot;
+                bestScore = score;
+                bestFill = fill;
+            }
+        });
+        return best;
+    }
+}
+/**
+ * Reference strategies by name, each call creates a fresh bot
+ */
+export const strategies = {
+    random: (seed) => new RandomStrategy(seed),
+    greedy: () => new GreedyStrategy(),
+    lookahead: () => new LookaheadStrategy()
+};
+/**
+ * Shot at the nearest fruit of the same type as the one to launch
+ */
+function greedyShot(view) {
+    const launcher = view.fruitToLaunch;
+    let target = null;
+    let targetDistance = Infinity;
+    view.fruits.forEach((fruit) => {
+        if (fruit.typeIndex !== launcher.typeIndex)
+            return;
+        const distance = Math.hypot(fruit.x - launcher.x, fruit.y - launcher.y);
+        if (distance < targetDistance) {
+            target = fruit;
+            targetDistance = distance;
+        }
+    });
+    if (!target) {
+        // Fan out over five directions so the table fills evenly
+        return { angle: -Math.PI / 2 + ((view.fruits.length % 5) - 2) * 0.25, power: 0.5 };
+    }
+    const { x, y } = target;
+    return {
+        angle: Math.atan2(y - launcher.y, x - launcher.x),
+        power: Math.min(targetDistance / MAX_AIM_DISTANCE, 1)
+    };
+}
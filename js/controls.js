@@ -0,0 +1,180 @@
+import { clampCueOffset, shotAim } from './world.js';
+// Pull-back distance (px) giving full power with the slingshot gesture
+const MAX_PULL = 150;
+// Power below which a release cancels the shot, a tap alone doesn't launch
+const MIN_POWER = 0.05;
+// Aim rotation speed of the arrow keys (radians per second), slower while Shift is held
+const ROTATE_SPEED = Math.PI / 2;
+const FINE_ROTATE_FACTOR = 0.25;
+// Time (seconds) for the Space key to charge from no power to full power
+const CHARGE_TIME = 1.2;
+// Cue offset change per press of W, A, S or D (fraction of the fruit's radius), and the direction of each key
+const CUE_STEP = 0.125;
+const CUE_KEYS = {
+    w: { x: 0, y: 1 }, // Top spin
+    s: { x: 0, y: -1 }, // Back spin
+    a: { x: -1, y: 0 }, // Left side spin
+    d: { x: 1, y: 0 } // Right side spin
+};
+/**
+ * Aim and power of the next launch, set from pointer and keyboard input
+ * Pointers pull back like a slingshot: the shot goes opposite to the drag, harder the further it is pulled
+ * The keyboard rotates the aim with the arrow keys and charges power while Space is held
+ * The cue offset, where the fruit is struck for spin, is kept between shots until changed
+ * Every method that ends a gesture returns the aim vector to launch with, or null
+ */
+export class LaunchControls {
+    constructor() {
+        this.angle = -Math.PI / 2; // Launch direction (radians, straight up by default)
+        this.power = 0.5; // Launch power in [0, 1]
+        this.offset = { x: 0, y: 0 }; // Cue offset as taken by SuikaWorld.launch() (center hit by default)
+        this.pull = null; // Slingshot being pulled
+        this.charging = false; // Space held
+        this.previousPower = 0.5; // Power restored when a gesture is dropped
+        this.rotating = { left: false, right: false, fine: false };
+    }
+    /**
+     * Whether power is being set right now (slingshot pulled or Space held)
+     */
+    get active() {
+        return this.pull !== null || this.charging;
+    }
+    /**
+     * Aim vector for the current direction and power, as taken by SuikaWorld.launch()
+     */
+    aim() {
+        return shotAim(this.angle, this.power);
+    }
+    /**
+     * Moves the cue offset, kept within reach of the fruit's center
+     */
+    setOffset(offset) {
+        this.offset = clampCueOffset(offset);
+    }
+    /**
+     * Points the aim at a hovering pointer (mouse or pen), the power is kept
+     */
+    hover(point, launcher) {
+        if (this.active)
+            return;
+        if (point.x === launcher.x && point.y === launcher.y)
+            return;
+        this.angle = Math.atan2(point.y - launcher.y, point.x - launcher.x);
+    }
+    /**
+     * Starts pulling the slingshot from a pointer press, anywhere on the table
+     */
+    pointerDown(pointerId, point) {
+        if (this.active)
+            return;
+        this.pull = { pointerId, start: point };
+        this.previousPower = this.power;
+        this.power = 0;
+    }
+    /**
+     * Follows the slingshot pull: the aim points from the pointer back to where the pull started
+     */
+    pointerMove(pointerId, point) {
+        if (!this.pull || this.pull.pointerId !== pointerId)
+            return;
+        const dx = this.pull.start.x - point.x;
+        const dy = this.pull.start.y - point.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance > 0)
+            this.angle = Math.atan2(dy, dx);
+        this.power = Math.min(distance / MAX_PULL, 1);
+    }
+    /**
+     * Releases the slingshot, returns the aim to launch with (null when barely pulled)
+     */
+    pointerUp(pointerId) {
+        if (!this.pull || this.pull.pointerId !== pointerId)
+            return null;
+        this.pull = null;
+        return this.release();
+    }
+    /**
+     * Handles a key press, returns whether the key is one of the controls
+     */
+    keyDown(key, shift) {
+        this.rotating.fine = shift;
+        const nudge = CUE_KEYS[key.toLowerCase()];
+        if (nudge) {
+            this.setOffset({ x: this.offset.x + nudge.x * CUE_STEP, y: this.offset.y + nudge.y * CUE_STEP });
+            return true;
+        }
+        switch (key) {
+            case 'ArrowLeft':
+                this.rotating.left = true;
+                return true;
+            case 'ArrowRight':
+                this.rotating.right = true;
+                return true;
+            case ' ':
+                if (!this.active) {
+                    this.charging = true;
+                    this.previousPower = this.power;
+                    this.power = 0;
+                }
+                return true;
+            case 'Escape':
+                this.cancel();
+                return true;
+            case 'x':
+            case 'X':
+                this.setOffset({ x: 0, y: 0 });
+                return true;
+        }
+        return false;
+    }
+    /**
+     * Handles a key release, returns the aim to launch with when Space is released
+     */
+    keyUp(key, shift) {
+        this.rotating.fine = shift;
+        switch (key) {
+            case 'ArrowLeft':
+                this.rotating.left = false;
+                break;
+            case 'ArrowRight':
+                this.rotating.right = false;
+                break;
+            case ' ':
+                if (this.charging) {
+                    this.charging = false;
+                    return this.release();
+                }
+                break;
+        }
+        return null;
+    }
+    /**
+     * Drops the gesture in progress without launching
+     */
+    cancel() {
+        if (this.active)
+            this.power = this.previousPower;
+        this.pull = null;
+        this.charging = false;
+        this.rotating.left = false;
+        this.rotating.right = false;
+    }
+    /**
+     * Advances held keys by dt seconds: rotates the aim and charges power
+     */
+    update(dt) {
+        const direction = (this.rotating.right ? 1 : 0) - (this.rotating.left ? 1 : 0);
+        if (direction !== 0) {
+            this.angle += direction * ROTATE_SPEED * (this.rotating.fine ? FINE_ROTATE_FACTOR : 1) * dt;
+        }
+        if (this.charging) {
+            this.power = Math.min(this.power + dt / CHARGE_TIME, 1);
+        }
+    }
+    release() {
+        if (this.power >= MIN_POWER)
+            return this.aim();
+        this.power = this.previousPower;
+        return null;
+    }
+}
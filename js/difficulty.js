@@ -0,0 +1,17 @@
+/**
+ * Available difficulty settings
+ */
+export const difficulties = [
+    { id: 'casual', label: 'Casual', trajectoryPreview: true },
+    { id: 'competitive', label: 'Competitive', trajectoryPreview: false }
+];
+/**
+ * Difficulty imposed on shared challenges, so everyone plays with the same assists
+ */
+export const COMPETITIVE_DIFFICULTY = 'competitive';
+/**
+ * Looks a difficulty up by id, falling back to the first one
+ */
+export function getDifficulty(id) {
+    return difficulties.find((difficulty) => difficulty.id === id) || difficulties[0];
+}
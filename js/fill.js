@@ -0,0 +1,56 @@
+// Height (px) of the scanlines the covered area is measured on
+const FILL_ROW_HEIGHT = 2;
+/**
+ * Area of the table covered by discs, counting overlaps once and leaving out what sticks out of the table
+ * Measured on horizontal scanlines: exact along each line, sampled every rowHeight vertically
+ */
+export function coveredArea(discs, width, height, rowHeight = FILL_ROW_HEIGHT) {
+    const rows = Math.ceil(height / rowHeight);
+    const spans = []; // Covered [start, end) pairs, flattened, per row
+    discs.forEach((disc) => {
+        const first = Math.max(0, Math.floor((disc.y - disc.radius) / rowHeight));
+        const last = Math.min(rows - 1, Math.floor((disc.y + disc.radius) / rowHeight));
+        for (let row = first; row <= last; row++) {
+            const dy = (row + 0.5) * rowHeight - disc.y; // Sampled at the middle of the row
+            const halfWidth = disc.radius * disc.radius - dy * dy;
+            if (halfWidth <= 0)
+                continue;
+            const reach = Math.sqrt(halfWidth);
+            const start = Math.max(0, disc.x - reach);
+            const end = Math.min(width, disc.x + reach);
+            if (end <= start)
+                continue;
+            (spans[row] || (spans[row] = [])).push(start, end);
+        }
+    });
+    let area = 0;
+    spans.forEach((row, index) => {
+        // Height of the last row is whatever is left of the table
+        const thickness = Math.min(rowHeight, height - index * rowHeight);
+        area += unionLength(row) * thickness;
+    });
+    return area;
+}
+/**
+ * Total length covered by flattened [start, end) pairs, overlaps counted once
+ */
+function unionLength(pairs) {
+    const order = [];
+    for (let i = 0; i < pairs.length; i += 2)
+        order.push(i);
+    order.sort((a, b) => pairs[a] - pairs[b]);
+    let length = 0;
+    let start = -Infinity;
+    let end = -Infinity;
+    order.forEach((i) => {
+        if (pairs[i] > end) {
+            length += end - start > 0 ? end - start : 0;
+            start = pairs[i];
+            end = pairs[i + 1];
+        }
+        else if (pairs[i + 1] > end) {
+            end = pairs[i + 1];
+        }
+    });
+    return length + (end - start > 0 ? end - start : 0);
+}
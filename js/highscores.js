@@ -0,0 +1,43 @@
+import { hasNumbers, isArray, isObject } from './json.js';
+// Entries kept per game mode
+export const HIGH_SCORE_COUNT = 5;
+/**
+ * Adds a score to the table of a game mode
+ * Returns its position in the table (0 = best), or -1 when it didn't make the table
+ */
+export function addHighScore(tables, modeId, entry) {
+    const table = tables[modeId] || (tables[modeId] = []);
+    let index = table.findIndex((other) => entry.score > other.score);
+    if (index < 0)
+        index = table.length;
+    if (index >= HIGH_SCORE_COUNT)
+        return -1;
+    table.splice(index, 0, entry);
+    table.length = Math.min(table.length, HIGH_SCORE_COUNT);
+    return index;
+}
+/**
+ * Parses stored high-score tables
+ * Malformed tables and entries are dropped rather than failing the whole file
+ */
+export function parseHighScores(text) {
+    let data;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        return {};
+    }
+    const tables = {};
+    if (!isObject(data))
+        return tables;
+    Object.keys(data).forEach((modeId) => {
+        const table = data[modeId];
+        if (!isArray(table))
+            return;
+        tables[modeId] = table
+            .filter((entry) => hasNumbers(entry, ['score', 'date', 'seed']))
+            .slice(0, HIGH_SCORE_COUNT);
+    });
+    return tables;
+}
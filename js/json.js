@@ -0,0 +1,40 @@
+/**
+ * Type guards for data parsed from JSON (files, saves and network messages)
+ * Parsed data is `unknown` until a guard has checked it
+ */
+/**
+ * Whether a value is an object, not null nor an array
+ */
+export function isObject(value) {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+/**
+ * Whether a value is an array, its items not checked yet
+ */
+export function isArray(value) {
+    return Array.isArray(value);
+}
+/**
+ * Whether a value is a finite number
+ */
+export function isNumber(value) {
+    return typeof value === 'number' && isFinite(value);
+}
+/**
+ * Whether a value is a whole number of at least min
+ */
+export function isInteger(value, min = -Infinity) {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+/**
+ * Whether a value is an object with a finite number in each of the given fields
+ */
+export function hasNumbers(value, keys) {
+    return isObject(value) && keys.every((key) => isNumber(value[key]));
+}
+/**
+ * Whether a value is one of the allowed strings
+ */
+export function isOneOf(value, allowed) {
+    return allowed.some((option) => option === value);
+}
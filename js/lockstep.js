@@ -0,0 +1,172 @@
+import { hasNumbers, isArray, isInteger, isObject } from './json.js';
+// Steps per lockstep turn, inputs are exchanged once per turn (0.1 s)
+export const TURN_FRAMES = 6;
+// Turns between a launch and the turn it is applied in, hides the network latency
+const INPUT_DELAY_TURNS = 3;
+// Turns between two state hashes
+const HASH_INTERVAL_TURNS = 10;
+/**
+ * Deterministic lockstep over a versus match
+ * Both clients simulate both tables; only launches travel, each tagged with the turn it applies in.
+ * A turn only starts once the launches of both players for it have arrived, so the tables stay identical.
+ * State hashes are exchanged regularly to detect clients that drifted apart anyway
+ */
+export class LockstepSession {
+    constructor(match, player, // Local player
+    send) {
+        this.match = match;
+        this.player = player;
+        this.send = send;
+        this.desyncTurn = null; // First turn whose hashes differed (null while in sync)
+        this.onDesync = null;
+        this.pending = []; // Local launches waiting to be sent
+        this.inputs = [new Map(), new Map()]; // Launches by turn, per player
+        this.hashes = [new Map(), new Map()]; // Hashes by turn, per player
+        this.sentTurn = -1; // Last turn local launches were sent for
+        // The first turns have no launches, nobody could have aimed yet
+        for (let turn = 0; turn < INPUT_DELAY_TURNS; turn++) {
+            this.inputs[0].set(turn, []);
+            this.inputs[1].set(turn, []);
+        }
+    }
+    /**
+     * Current turn of the match
+     */
+    get turn() {
+        return Math.floor(this.match.frame / TURN_FRAMES);
+    }
+    /**
+     * Whether a local launch is waiting for its turn, the launcher stays loaded until then
+     */
+    get launchPending() {
+        if (this.pending.length > 0)
+            return true;
+        const input = this.inputs[this.player];
+        for (let turn = this.turn; turn <= this.sentTurn; turn++) {
+            if ((input.get(turn) || []).length > 0)
+                return true;
+        }
+        return false;
+    }
+    /**
+     * Queues a local launch, applied on both clients a few turns later
+     * Returns false when the local table has no fruit ready or a launch is already on its way
+     */
+    launch(aim, offset = { x: 0, y: 0 }) {
+        if (!this.match.tables[this.player].fruitToLaunch || this.launchPending || this.match.result)
+            return false;
+        this.pending.push({ aim: { x: aim.x, y: aim.y }, offset: { x: offset.x, y: offset.y } });
+        return true;
+    }
+    /**
+     * Handles a message relayed from the opponent
+     */
+    receive(message) {
+        const opponent = 1 - this.player;
+        if (message.type === 'turn') {
+            this.inputs[opponent].set(message.turn, message.launches);
+        }
+        else if (message.type === 'hash') {
+            this.hashes[opponent].set(message.turn, message.hash);
+            this.checkHash(message.turn);
+        }
+    }
+    /**
+     * Advances the match by one step when the launches for it are known
+     * Returns false while waiting for the opponent
+     */
+    advance() {
+        if (this.match.result)
+            return false;
+        const frame = this.match.frame;
+        if (frame % TURN_FRAMES === 0) {
+            const turn = frame / TURN_FRAMES;
+            // Send the launches made during the last turn, for the turn they apply in
+            if (this.sentTurn < turn + INPUT_DELAY_TURNS) {
+                this.sentTurn = turn + INPUT_DELAY_TURNS;
+                this.inputs[this.player].set(this.sentTurn, this.pending);
+                this.send({ type: 'turn', turn: this.sentTurn, launches: this.pending });
+                this.pending = [];
+            }
+            const launches = this.inputs.map((input) => input.get(turn));
+            if (!launches[0] || !launches[1])
+                return false;
+            if (turn % HASH_INTERVAL_TURNS === 0 && !this.hashes[this.player].has(turn)) {
+                const hash = this.match.hash();
+                this.hashes[this.player].set(turn, hash);
+                this.send({ type: 'hash', turn, hash });
+                this.checkHash(turn);
+            }
+            launches.forEach((turnLaunches, player) => {
+                turnLaunches.forEach((launch) => this.match.tables[player].launch(launch.aim, launch.offset));
+                this.inputs[player].delete(turn);
+            });
+        }
+        this.match.step();
+        return true;
+    }
+    /**
+     * Compares both hashes of a turn once both are known
+     */
+    checkHash(turn) {
+        const local = this.hashes[this.player].get(turn);
+        const remote = this.hashes[1 - this.player].get(turn);
+        if (local === undefined || remote === undefined)
+            return;
+        this.hashes[0].delete(turn);
+        this.hashes[1].delete(turn);
+        if (local !== remote && this.desyncTurn === null) {
+            this.desyncTurn = turn;
+            if (this.onDesync)
+                this.onDesync(turn);
+        }
+    }
+}
+/**
+ * Parses and validates a message received over the network
+ * Throws an Error describing the first problem found
+ */
+export function parseVersusMessage(text) {
+    let data;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        throw new Error('Message is not valid JSON');
+    }
+    if (!isObject(data)) {
+        throw new Error('Message must be an object');
+    }
+    const isLaunch = (launch) => isObject(launch) && hasNumbers(launch.aim, ['x', 'y']) && hasNumbers(launch.offset, ['x', 'y']);
+    switch (data.type) {
+        case 'join':
+            if (typeof data.room !== 'string' || data.room === '')
+                throw new Error('join needs a room name');
+            return { type: 'join', room: data.room };
+        case 'start':
+            if (!isInteger(data.seed, 0) || (data.player !== 0 && data.player !== 1))
+                throw new Error('start needs a seed and a player');
+            return { type: 'start', seed: data.seed, player: data.player };
+        case 'turn':
+            if (!isInteger(data.turn, 0) || !isArray(data.launches) || !data.launches.every(isLaunch)) {
+                throw new Error('turn needs a turn number and a list of {aim, offset} launches');
+            }
+            return {
+                type: 'turn',
+                turn: data.turn,
+                launches: data.launches.map((launch) => ({
+                    aim: { x: launch.aim.x, y: launch.aim.y },
+                    offset: { x: launch.offset.x, y: launch.offset.y }
+                }))
+            };
+        case 'hash':
+            if (!isInteger(data.turn, 0) || !isInteger(data.hash, 0))
+                throw new Error('hash needs a turn number and a hash');
+            return { type: 'hash', turn: data.turn, hash: data.hash };
+        case 'left':
+            return { type: 'left' };
+        case 'error':
+            return { type: 'error', message: String(data.message) };
+    }
+    throw new Error(`Unknown message type: ${data.type}`);
+}
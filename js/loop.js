@@ -0,0 +1,57 @@
+import { FIXED_TIMESTEP } from './world.js';
+// Longest frame time taken into account (seconds), avoids a burst of steps after a stall
+const MAX_FRAME_TIME = 0.25;
+/**
+ * Fixed timestep game loop driven by requestAnimationFrame
+ * Runs as many fixed simulation steps as the elapsed time requires, then renders
+ * with the leftover fraction of a step so motion stays smooth at any refresh rate
+ * The loop pauses while the tab is hidden
+ */
+export class FixedTimestepLoop {
+    constructor(step, // Advances the simulation by FIXED_TIMESTEP
+    render // Draws, alpha in [0, 1) between the last two steps
+    ) {
+        this.step = step;
+        this.render = render;
+        this.accumulator = 0; // Simulated time owed to the simulation (seconds)
+        this.lastTime = null; // Timestamp of the previous frame (ms)
+        this.running = false;
+        this.frame = (time) => {
+            if (!this.running)
+                return;
+            if (!document.hidden) {
+                if (this.lastTime !== null) {
+                    this.accumulator += Math.min((time - this.lastTime) / 1000, MAX_FRAME_TIME);
+                }
+                this.lastTime = time;
+                while (this.accumulator >= FIXED_TIMESTEP) {
+                    this.step();
+                    this.accumulator -= FIXED_TIMESTEP;
+                }
+                this.render(this.accumulator / FIXED_TIMESTEP);
+            }
+            requestAnimationFrame(this.frame);
+        };
+        document.addEventListener('visibilitychange', () => {
+            // Forget the time spent hidden, so there is nothing to catch up on return
+            this.lastTime = null;
+            this.accumulator = 0;
+        });
+    }
+    /**
+     * Starts the loop if it isn't running already
+     */
+    start() {
+        if (this.running)
+            return;
+        this.running = true;
+        this.lastTime = null;
+        requestAnimationFrame(this.frame);
+    }
+    /**
+     * Stops the loop after the current frame
+     */
+    stop() {
+        this.running = false;
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Available game modes, the first one is the default
+ */
+export const gameModes = [
+    {
+        id: 'classic',
+        label: 'Classic',
+        description: 'Play until the table stays 90% full',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: null
+    },
+    {
+        id: 'zen',
+        label: 'Zen',
+        description: 'No game over, merge at your own pace',
+        fillLimit: false,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: null
+    },
+    {
+        id: 'time-attack',
+        label: 'Time Attack',
+        description: 'Best score in 2 minutes',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: 120,
+        shotLimit: null
+    },
+    {
+        id: 'limited-shots',
+        label: 'Limited Shots',
+        description: 'Best score with 30 launches',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: 30
+    }
+];
+/**
+ * Looks a game mode up by id, falling back to the first one
+ */
+export function getGameMode(id) {
+    return gameModes.find((mode) => mode.id === id) || gameModes[0];
+}
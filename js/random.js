@@ -0,0 +1,60 @@
+/**
+ * Mulberry32 generator
+ * Small, fast 32-bit PRNG with a single word of state
+ */
+export class Mulberry32 {
+    constructor(seed) {
+        this.state = seed >>> 0;
+    }
+    next() {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+    getState() {
+        return this.state;
+    }
+    setState(state) {
+        this.state = state >>> 0;
+    }
+}
+/**
+ * Default factory used by the world
+ */
+export const createRandom = (seed) => new Mulberry32(seed);
+/**
+ * Picks a fresh seed for a non-reproducible game
+ */
+export function randomSeed() {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+/**
+ * Converts user input into a seed
+ * Plain integers are used as-is, any other text is hashed (FNV-1a)
+ */
+export function parseSeed(text) {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) >>> 0;
+    }
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+/**
+ * Returns the UTC date key (YYYY-MM-DD) of the daily challenge
+ */
+export function dailyKey(date) {
+    return date.toISOString().slice(0, 10);
+}
+/**
+ * Seed of the daily challenge, identical for every player on the same UTC day
+ */
+export function dailySeed(date) {
+    return parseSeed(`daily-${dailyKey(date)}`);
+}
@@ -0,0 +1,199 @@
+import { MAX_PLAYERS } from './world.js';
+import { DEFAULT_THEME, validateTheme } from './themes.js';
+import { getGameMode } from './modes.js';
+import { validateLevel } from './levels.js';
+import { hasNumbers, isArray, isInteger, isNumber, isObject, isOneOf } from './json.js';
+// Current version of the replay file format
+// Version 2: frames are fixed simulation steps with per-second physics
+// Version 3: substep solver with continuous collisions and sleeping
+// Version 4: fill measured as covered area, game over after a danger period
+// Version 5: spin and contact friction, launches may carry a cue offset
+export const REPLAY_VERSION = 5;
+/**
+ * Records the launches of a world into a replay
+ * Starts a new recording every time the world is reset
+ */
+export class ReplayRecorder {
+    constructor(world) {
+        this.world = world;
+        this.launches = [];
+        this.unsubscribe = [
+            world.on('reset', () => {
+                this.launches = [];
+            }),
+            world.on('launch', (event) => {
+                this.launches.push(event.offset.x !== 0 || event.offset.y !== 0
+                    ? [event.frame, event.aim.x, event.aim.y, event.offset.x, event.offset.y]
+                    : [event.frame, event.aim.x, event.aim.y]);
+            })
+        ];
+    }
+    /**
+     * Launches recorded so far
+     */
+    getLaunches() {
+        return this.launches.slice();
+    }
+    /**
+     * Continues an earlier recording, e.g. after resuming a saved game
+     */
+    resume(launches) {
+        this.launches = launches.slice();
+    }
+    /**
+     * Builds the replay of the game recorded so far
+     */
+    toReplay() {
+        return {
+            version: REPLAY_VERSION,
+            seed: this.world.seed,
+            width: this.world.width,
+            height: this.world.height,
+            frames: this.world.frame,
+            score: this.world.score,
+            launches: this.launches.slice(),
+            endOfChain: this.world.endOfChain,
+            theme: this.world.theme,
+            mode: this.world.mode.id,
+            pockets: this.world.pockets,
+            level: this.world.level,
+            players: this.world.players,
+            specialRate: this.world.specialRate
+        };
+    }
+    /**
+     * Stops listening to the world
+     */
+    dispose() {
+        this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    }
+}
+/**
+ * Parses and validates a replay file
+ * Throws an Error describing the first problem found
+ */
+export function parseReplay(text) {
+    let data;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        throw new Error('Replay file is not valid JSON');
+    }
+    if (!isObject(data)) {
+        throw new Error('Replay file must contain an object');
+    }
+    if (data.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version: ${data.version}`);
+    }
+    ['seed', 'width', 'height', 'frames', 'score'].forEach((key) => {
+        if (!isNumber(data[key])) {
+            throw new Error(`Replay field "${key}" must be a number`);
+        }
+    });
+    if (data.endOfChain !== undefined && !isOneOf(data.endOfChain, ['keep', 'vanish', 'explode'])) {
+        throw new Error(`Unknown end-of-chain rule: ${data.endOfChain}`);
+    }
+    if (data.mode !== undefined && (typeof data.mode !== 'string' || getGameMode(data.mode).id !== data.mode)) {
+        throw new Error(`Unknown game mode: ${data.mode}`);
+    }
+    if (data.pockets !== undefined && (!isArray(data.pockets) || !data.pockets.every((pocket) => hasNumbers(pocket, ['x', 'y', 'radius'])))) {
+        throw new Error('Replay field "pockets" must be a list of {x, y, radius}');
+    }
+    if (data.players !== undefined && (!isInteger(data.players, 1) || data.players > MAX_PLAYERS)) {
+        throw new Error(`Replay field "players" must be a whole number from 1 to ${MAX_PLAYERS}`);
+    }
+    if (data.specialRate !== undefined && (!isNumber(data.specialRate) || data.specialRate < 0 || data.specialRate > 1)) {
+        throw new Error('Replay field "specialRate" must be a number from 0 to 1');
+    }
+    if (data.level !== undefined && data.level !== null) {
+        data.level = validateLevel(data.level);
+    }
+    if (data.theme !== undefined) {
+        data.theme = validateTheme(data.theme);
+    }
+    const launches = data.launches;
+    if (!isArray(launches)) {
+        throw new Error('Replay field "launches" must be an array');
+    }
+    let previousFrame = -Infinity;
+    launches.forEach((launch, index) => {
+        if (!isArray(launch) || (launch.length !== 3 && launch.length !== 5) || !launch.every(isNumber)) {
+            throw new Error(`Replay launch #${index} must be a [frame, aimX, aimY] or [frame, aimX, aimY, cueX, cueY] tuple`);
+        }
+        if (launch[0] < previousFrame) {
+            throw new Error(`Replay launch #${index} is out of frame order`);
+        }
+        previousFrame = launch[0];
+    });
+    // Every field has been checked above
+    return data;
+}
+/**
+ * Plays a replay back on a world
+ * The world is driven frame by frame, so playback can be paused, sped up or seeked
+ */
+export class ReplayPlayer {
+    constructor(world, replay) {
+        this.world = world;
+        this.replay = replay;
+        this.nextLaunch = 0; // Index of the next launch to apply
+        if (world.width !== replay.width || world.height !== replay.height) {
+            throw new Error(`Replay was recorded on a ${replay.width}x${replay.height} table`);
+        }
+        this.restart();
+    }
+    /**
+     * Current playback frame
+     */
+    get frame() {
+        return this.world.frame;
+    }
+    /**
+     * Whether playback reached the end of the recording
+     */
+    get finished() {
+        return this.world.frame >= this.replay.frames || this.world.gameOver;
+    }
+    /**
+     * Rewinds the world to the beginning of the replay
+     */
+    restart() {
+        this.world.endOfChain = this.replay.endOfChain || 'keep';
+        this.world.theme = this.replay.theme || DEFAULT_THEME;
+        this.world.mode = getGameMode(this.replay.mode || '');
+        this.world.pockets = this.replay.pockets || [];
+        this.world.level = this.replay.level || null;
+        this.world.players = this.replay.players || 1;
+        this.world.specialRate = this.replay.specialRate || 0;
+        this.world.reset(this.replay.seed);
+        this.nextLaunch = 0;
+    }
+    /**
+     * Plays one frame: applies the launches recorded for it, then steps the world
+     */
+    advance() {
+        if (this.finished)
+            return;
+        const launches = this.replay.launches;
+        while (this.nextLaunch < launches.length && launches[this.nextLaunch][0] <= this.world.frame) {
+            const launch = launches[this.nextLaunch];
+            this.world.launch({ x: launch[1], y: launch[2] }, { x: launch[3] || 0, y: launch[4] || 0 });
+            this.nextLaunch++;
+        }
+        this.world.step();
+    }
+    /**
+     * Moves playback to the given frame
+     * Seeking backwards replays the game from the start
+     */
+    seek(frame) {
+        const target = Math.max(0, Math.min(frame, this.replay.frames));
+        if (target < this.world.frame) {
+            this.restart();
+        }
+        while (this.world.frame < target && !this.finished) {
+            this.advance();
+        }
+    }
+}
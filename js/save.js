@@ -0,0 +1,196 @@
+import { DEFAULT_THEME, validateTheme } from './themes.js';
+import { validateLevel } from './levels.js';
+import { isSpecialKind } from './specials.js';
+import { MAX_PLAYERS } from './world.js';
+import { hasNumbers, isArray, isInteger, isNumber, isObject, isOneOf } from './json.js';
+// Current version of the save format, bump it when WorldSnapshot or the default theme change
+export const SAVE_VERSION = 2;
+/**
+ * Migration upgrading a save from one version to the next
+ * Keyed by the version it upgrades from, e.g. migrations[1] turns a v1 save into a v2 save
+ * Add one here whenever FruitType indices or the snapshot layout change
+ */
+const migrations = {
+    // v1 -> v2: velocities moved from pixels per frame (60 fps) to pixels per second
+    1: (save) => {
+        const world = save.world;
+        if (!isObject(world) || !isArray(world.fruits)) {
+            throw new Error('Save has no world state');
+        }
+        const toPerSecond = (fruit) => isObject(fruit)
+            ? Object.assign(Object.assign({}, fruit), { vx: Number(fruit.vx) * 60, vy: Number(fruit.vy) * 60 }) : fruit;
+        return Object.assign(Object.assign({}, save), { version: 2, world: Object.assign(Object.assign({}, world), { fruits: world.fruits.map(toPerSecond), fruitToLaunch: toPerSecond(world.fruitToLaunch) }) });
+    }
+};
+/**
+ * Upgrades a save of any known version to the current one
+ * Throws an Error when the save is from an unknown (newer or missing) version
+ * Only the version is checked, the upgraded save still has to be validated
+ */
+export function migrateSave(data) {
+    if (!isObject(data) || !isNumber(data.version)) {
+        throw new Error('Save has no version');
+    }
+    let save = data;
+    let version = data.version;
+    if (version > SAVE_VERSION) {
+        throw new Error(`Save version ${version} is newer than supported version ${SAVE_VERSION}`);
+    }
+    while (version < SAVE_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`No migration from save version ${version}`);
+        }
+        save = migrate(save);
+        version++;
+    }
+    return save;
+}
+/**
+ * Serializes a game into a JSON string
+ */
+export function serializeGame(world, launches) {
+    const save = {
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        world,
+        launches
+    };
+    return JSON.stringify(save);
+}
+/**
+ * Parses, migrates and validates a saved game
+ * Throws an Error describing the first problem found
+ */
+export function deserializeGame(text) {
+    let data;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        throw new Error('Save is not valid JSON');
+    }
+    const save = migrateSave(data);
+    if (!isNumber(save.savedAt)) {
+        throw new Error('Save field "savedAt" must be a number');
+    }
+    const launches = save.launches === undefined ? [] : save.launches;
+    if (!isArray(launches)) {
+        throw new Error('Save field "launches" must be an array');
+    }
+    return {
+        version: SAVE_VERSION,
+        savedAt: save.savedAt,
+        world: validateSnapshot(save.world),
+        launches: launches.map((launch, index) => {
+            if (!isArray(launch) || (launch.length !== 3 && launch.length !== 5) || !launch.every(isNumber)) {
+                throw new Error(`Saved launch #${index} must be a [frame, aimX, aimY] or [frame, aimX, aimY, cueX, cueY] tuple`);
+            }
+            return launch.length === 5
+                ? [launch[0], launch[1], launch[2], launch[3], launch[4]]
+                : [launch[0], launch[1], launch[2]];
+        })
+    };
+}
+/**
+ * Validates the world snapshot of a save, every field of it
+ * Throws an Error describing the first problem found
+ */
+function validateSnapshot(world) {
+    if (!isObject(world) || !isArray(world.fruits)) {
+        throw new Error('Save has no world state');
+    }
+    const fail = (message) => {
+        throw new Error(message);
+    };
+    // Checks an optional field, missing ones stay undefined
+    const optional = (value, check, field, expected) => {
+        if (value === undefined || check(value))
+            return value;
+        return fail(`${field} must be ${expected}`);
+    };
+    const isCount = (value) => isInteger(value, 0);
+    const isNumberOrNull = (value) => value === null || isNumber(value);
+    const theme = world.theme === undefined ? undefined : validateTheme(world.theme);
+    const level = world.level === undefined || world.level === null ? world.level : validateLevel(world.level);
+    const chainLength = (theme || DEFAULT_THEME).chainLength;
+    // Special items are outside the chain, with type -1
+    const isValidType = (typeIndex, special) => special !== undefined
+        ? isSpecialKind(special) && typeIndex === -1
+        : isInteger(typeIndex, 0) && typeIndex < chainLength;
+    const fruit = (value, where) => {
+        if (!isObject(value)) {
+            return fail(`${where} must be an object`);
+        }
+        const typeIndex = value.typeIndex;
+        const special = value.special;
+        if (!isInteger(typeIndex) || !isValidType(typeIndex, special)) {
+            return fail(`${where} has unknown type ${special || typeIndex}`);
+        }
+        if (!hasNumbers(value, ['x', 'y', 'vx', 'vy', 'angle'])) {
+            return fail(`${where} must have a numeric x, y, vx, vy and angle`);
+        }
+        const optionalNumber = (key) => optional(value[key], isNumber, `${where} field "${key}"`, 'a number');
+        return {
+            typeIndex,
+            x: value.x,
+            y: value.y,
+            vx: value.vx,
+            vy: value.vy,
+            angle: value.angle,
+            spin: optionalNumber('spin'),
+            rollX: optionalNumber('rollX'),
+            rollY: optionalNumber('rollY'),
+            sleeping: optional(value.sleeping, (sleeping) => typeof sleeping === 'boolean', `${where} field "sleeping"`, 'true or false'),
+            restTime: optionalNumber('restTime'),
+            shot: optional(value.shot, (shot) => isInteger(shot, -1), `${where} field "shot"`, 'a launch number'),
+            special: isSpecialKind(special) ? special : undefined,
+            frozen: optionalNumber('frozen')
+        };
+    };
+    if (!isCount(world.frame))
+        return fail('Save field "frame" must be a whole number');
+    if (!isNumber(world.seed))
+        return fail('Save field "seed" must be a number');
+    if (!isNumber(world.randomState))
+        return fail('Save field "randomState" must be a number');
+    if (!isNumber(world.score))
+        return fail('Save field "score" must be a number');
+    if (typeof world.gameOver !== 'boolean')
+        return fail('Save field "gameOver" must be true or false');
+    if (!isNumberOrNull(world.reloadAtFrame))
+        return fail('Save field "reloadAtFrame" must be a number or null');
+    const fruitInQueue = world.fruitInQueue;
+    if (!isInteger(fruitInQueue) || !isValidType(fruitInQueue, world.queuedSpecial)) {
+        return fail(`Saved queued fruit has unknown type ${fruitInQueue}`);
+    }
+    const players = optional(world.players, (value) => isInteger(value, 1) && value <= MAX_PLAYERS, 'Save field "players"', `a whole number from 1 to ${MAX_PLAYERS}`);
+    return {
+        frame: world.frame,
+        seed: world.seed,
+        randomState: world.randomState,
+        score: world.score,
+        gameOver: world.gameOver,
+        reloadAtFrame: world.reloadAtFrame,
+        fruits: world.fruits.map((value, index) => fruit(value, `Saved fruit #${index}`)),
+        fruitToLaunch: world.fruitToLaunch === null ? null : fruit(world.fruitToLaunch, 'Saved launch fruit'),
+        fruitInQueue,
+        queuedSpecial: isSpecialKind(world.queuedSpecial) ? world.queuedSpecial : undefined,
+        comboCount: optional(world.comboCount, isCount, 'Save field "comboCount"', 'a whole number'),
+        comboLastTime: optional(world.comboLastTime, isNumberOrNull, 'Save field "comboLastTime"', 'a number or null'),
+        watermelonClears: optional(world.watermelonClears, isCount, 'Save field "watermelonClears"', 'a whole number'),
+        endOfChain: optional(world.endOfChain, (value) => isOneOf(value, ['keep', 'vanish', 'explode']), 'Save field "endOfChain"', 'keep, vanish or explode'),
+        theme,
+        mode: optional(world.mode, (value) => typeof value === 'string', 'Save field "mode"', 'a string'),
+        shots: optional(world.shots, isCount, 'Save field "shots"', 'a whole number'),
+        pockets: optional(world.pockets, (value) => isArray(value) &&
+            value.every((pocket) => hasNumbers(pocket, ['x', 'y', 'radius'])), 'Save field "pockets"', 'a list of {x, y, radius}'),
+        pocketed: optional(world.pocketed, isCount, 'Save field "pocketed"', 'a whole number'),
+        level,
+        dangerFrames: optional(world.dangerFrames, isCount, 'Save field "dangerFrames"', 'a whole number'),
+        players,
+        playerScores: optional(world.playerScores, (value) => isArray(value) &&
+            value.length === (players || 1) && value.every(isNumber), 'Save field "playerScores"', 'a number per player'),
+        specialRate: optional(world.specialRate, (value) => isNumber(value) && value >= 0 && value <= 1, 'Save field "specialRate"', 'a number from 0 to 1')
+    };
+}
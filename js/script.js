@@ -1,147 +1,996 @@
-"use strict";
+import { FILL_LIMIT, FIXED_TIMESTEP, MAX_CUE_OFFSET, MAX_LAUNCH_SPEED, SuikaWorld, WORLD_HEIGHT, WORLD_WIDTH } from './world.js';
+import { dailyKey, dailySeed, parseSeed } from './random.js';
+import { ReplayPlayer, ReplayRecorder, parseReplay } from './replay.js';
+import { deserializeGame, serializeGame } from './save.js';
+import { FixedTimestepLoop } from './loop.js';
+import { predictLaunch } from './prediction.js';
+import { COMPETITIVE_DIFFICULTY, difficulties, getDifficulty } from './difficulty.js';
+import { DEFAULT_THEME, parseTheme } from './themes.js';
+import { FruitSpriteCache } from './sprites.js';
+import { gameModes } from './modes.js';
+import { poolPockets } from './pockets.js';
+import { emptyLevel, parseLevel } from './levels.js';
+import { LevelEditor, drawObstacles } from './editor.js';
+import { LaunchControls } from './controls.js';
+import { Viewport } from './viewport.js';
+import { addHighScore, parseHighScores } from './highscores.js';
+import { VersusMatch } from './versus.js';
+import { LockstepSession, parseVersusMessage } from './lockstep.js';
+import { FREEZE_TIME } from './specials.js';
+import { SoundEngine, parseAudioSettings } from './audio.js';
+import { EffectLayer } from './effects.js';
 // Get main game canvas and its 2D rendering context
 const canvas = document.getElementById('game-canvas');
 const ctx = canvas.getContext('2d');
+const canvasContainer = document.getElementById('canvas-container');
 // Get UI elements for score display and game over screen
 const scoreEl = document.getElementById('score');
+const comboEl = document.getElementById('combo');
 const finalScoreEl = document.getElementById('final-score');
+const finalClearsEl = document.getElementById('final-clears');
+const finalScoreLineEl = document.getElementById('final-score-line');
+const resultsEl = document.getElementById('results');
+const resultsBodyEl = document.getElementById('results-body');
+const highScoresSectionEl = document.getElementById('high-scores-section');
+const clearsEl = document.getElementById('watermelon-clears');
+const endOfChainSelect = document.getElementById('end-of-chain-select');
+const specialSelect = document.getElementById('special-select');
+const pocketedEl = document.getElementById('pocketed');
+const tableSelect = document.getElementById('table-select');
+const difficultySelect = document.getElementById('difficulty-select');
+const themeSelect = document.getElementById('theme-select');
+const loadThemeInput = document.getElementById('load-theme-input');
+// Get level and editor elements
+const levelSelect = document.getElementById('level-select');
+const loadLevelInput = document.getElementById('load-level-input');
+const editLevelButton = document.getElementById('edit-level-button');
+const editorControls = document.getElementById('editor-controls');
+const editorToolSelect = document.getElementById('editor-tool');
+const editorSurfaceSelect = document.getElementById('editor-surface');
+const exportLevelButton = document.getElementById('export-level-button');
+const playLevelButton = document.getElementById('play-level-button');
 const gameOverScreen = document.getElementById('game-over-screen');
+const gameOverTitleEl = document.getElementById('game-over-title');
+const highScoresEl = document.getElementById('high-scores');
 const restartButton = document.getElementById('restart-button');
+const changeModeButton = document.getElementById('change-mode-button');
+// Get game mode elements
+const startScreen = document.getElementById('start-screen');
+const modeButtons = document.getElementById('mode-buttons');
+const playerCountSelect = document.getElementById('player-count');
+const playersSectionEl = document.getElementById('players-section');
+const playerPanelsEl = document.getElementById('player-panels');
+const versusServerInput = document.getElementById('versus-server');
+const versusRoomInput = document.getElementById('versus-room');
+const versusButton = document.getElementById('versus-button');
+const versusStatusEl = document.getElementById('versus-status');
+const opponentTableEl = document.getElementById('opponent-table');
+const opponentCanvas = document.getElementById('opponent-canvas');
+const opponentCtx = opponentCanvas.getContext('2d');
+const opponentScoreEl = document.getElementById('opponent-score');
+const modeLabelEl = document.getElementById('mode-label');
+const timeLeftEl = document.getElementById('time-left');
+const shotsLeftEl = document.getElementById('shots-left');
+// Get next fruit preview elements
+const nextFruitCanvas = document.getElementById('next-fruit-canvas');
+const nextFruitCtx = nextFruitCanvas.getContext('2d');
+const nextFruitName = document.getElementById('next-fruit-name');
+// Get sound setting elements
+const muteCheckbox = document.getElementById('mute-checkbox');
+const masterVolumeInput = document.getElementById('master-volume');
+const categoryVolumeInputs = Array.from(document.querySelectorAll('.category-volume'));
+// Get motion setting elements
+const reducedMotionCheckbox = document.getElementById('reduced-motion-checkbox');
+// Get spin picker elements
+const spinPicker = document.getElementById('spin-picker');
+const spinCtx = spinPicker.getContext('2d');
 // Get fill gauge elements
 const fillGaugeCanvas = document.getElementById('fill-gauge');
+const gaugeCtx = fillGaugeCanvas.getContext('2d');
 const fillPercentageEl = document.getElementById('fill-percentage');
+// Get seed display elements
+const seedEl = document.getElementById('seed');
+const seedLabelEl = document.getElementById('seed-label');
+const dailyButton = document.getElementById('daily-button');
+// Get replay elements
+const exportReplayButton = document.getElementById('export-replay-button');
+const loadReplayInput = document.getElementById('load-replay-input');
+const replayControls = document.getElementById('replay-controls');
+const replayPlayButton = document.getElementById('replay-play-button');
+const replaySpeedSelect = document.getElementById('replay-speed');
+const replaySeekInput = document.getElementById('replay-seek');
+const replayFrameEl = document.getElementById('replay-frame');
+const replayExitButton = document.getElementById('replay-exit-button');
+// Get continue screen elements
+const continueScreen = document.getElementById('continue-screen');
+const continueScoreEl = document.getElementById('continue-score');
+const continueButton = document.getElementById('continue-button');
+const newGameButton = document.getElementById('new-game-button');
+// localStorage keys of the game in progress, the chosen difficulty, the high scores and the sound and motion settings
+const SAVE_KEY = 'suika-pool-save';
+const DIFFICULTY_KEY = 'suika-pool-difficulty';
+const HIGH_SCORES_KEY = 'suika-pool-high-scores';
+const AUDIO_KEY = 'suika-pool-audio';
+const REDUCED_MOTION_KEY = 'suika-pool-reduced-motion';
+// Titles of the game over screen, by the limit that ended the game
+const GAME_OVER_TITLES = {
+    fill: 'Game Over',
+    time: 'Time\'s up!',
+    shots: 'Out of shots'
+};
+// Colors of the hot-seat players, on their score panel and launch indicator
+const PLAYER_COLORS = ['#1E88E5', '#D80E4B', '#2E8B57', '#F57C00'];
+// Size of the opponent's table next to the HUD, relative to the world
+const OPPONENT_SCALE = 0.25;
+// Merges into the last ranks of the chain shake the table, harder for larger fruits
+const BIG_MERGE_RANKS = 4;
+// Longest display time an animation advances by in one frame (seconds), after a stall
+const MAX_EFFECT_STEP = 0.1;
 /**
- * Core game state variables
- */
-let score = 0; // Current player score
-let gameOver = false; // Game over flag
-let fruits = []; // Array of all fruits in the game
-let fruitToLaunch; // Fruit ready to be launched (null when none)
-let fruitInQueue; // Next fruit waiting in queue
-/**
- * Array of all available fruit types
- * Ordered by rank (0 = smallest, 10 = largest)
- * Only the first 5 types (ranks 0-4) are randomly generated
- */
-const fruitTypes = [
-    { rank: 0, radius: 15, color: '#8A2BE2', name: 'Cherry', score: 1 },
-    { rank: 1, radius: 20, color: '#B11D97', name: 'Strawberry', score: 2 },
-    { rank: 2, radius: 28, color: '#D80E4B', name: 'Grape', score: 3 },
-    { rank: 3, radius: 35, color: '#FF0000', name: 'Dekopon', score: 4 },
-    { rank: 4, radius: 45, color: '#FF5500', name: 'Persimmon', score: 5 },
-    { rank: 5, radius: 55, color: '#FFAA00', name: 'Apple', score: 6 },
-    { rank: 6, radius: 65, color: '#FFFF00', name: 'Pear', score: 7 },
-    { rank: 7, radius: 75, color: '#C8E208', name: 'Peach', score: 8 },
-    { rank: 8, radius: 85, color: '#90C511', name: 'Pineapple', score: 9 },
-    { rank: 9, radius: 100, color: '#59A819', name: 'Melon', score: 10 },
-    { rank: 10, radius: 120, color: '#228B22', name: 'Watermelon', score: 11 }
-];
-// Current mouse position on the canvas
-let mousePos = { x: 0, y: 0 };
-/**
- * Converts mouse event coordinates to canvas coordinates
- * Accounts for canvas position and scroll offset
- */
-function getMousePos(canvas, evt) {
-    const rect = canvas.getBoundingClientRect();
-    return {
-        x: evt.clientX - rect.left,
-        y: evt.clientY - rect.top
-    };
+ * Reads the fixed seed requested through the URL, if any
+ * `?daily` plays the seed of the day, `?seed=<value>` plays a shared seed
+ */
+function getUrlSeed() {
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('daily')) {
+        return { seed: dailySeed(new Date()), label: `Daily ${dailyKey(new Date())}` };
+    }
+    const seedParam = params.get('seed');
+    if (seedParam) {
+        return { seed: parseSeed(seedParam), label: 'Shared seed' };
+    }
+    return null;
+}
+// Seed fixed by the URL (null for a fresh random game on each restart)
+const urlSeed = getUrlSeed();
+/**
+ * Reads the difficulty chosen in an earlier session
+ */
+function loadDifficulty() {
+    try {
+        return getDifficulty(localStorage.getItem(DIFFICULTY_KEY) || '');
+    }
+    catch (e) {
+        return difficulties[0];
+    }
+}
+/**
+ * Reads the sound settings chosen in an earlier session
+ */
+function loadAudioSettings() {
+    try {
+        return parseAudioSettings(localStorage.getItem(AUDIO_KEY) || '{}');
+    }
+    catch (e) {
+        return parseAudioSettings('{}');
+    }
 }
-// Track mouse movement for aiming line display
-canvas.addEventListener('mousemove', (evt) => {
-    mousePos = getMousePos(canvas, evt);
+// Synthesized sound effects of the local table
+const sounds = new SoundEngine(loadAudioSettings());
+/**
+ * Reads the reduced motion setting, following the system preference until it is changed here
+ */
+function loadReducedMotion() {
+    try {
+        const stored = localStorage.getItem(REDUCED_MOTION_KEY);
+        if (stored !== null)
+            return stored === 'true';
+    }
+    catch (e) {
+        // Storage unavailable, fall back to the system preference
+    }
+    return window.matchMedia !== undefined && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+// Merge bursts, grow-in tweens, score popups and screen shake, off with reduced motion
+const effects = new EffectLayer();
+effects.enabled = !loadReducedMotion();
+// Display time of the last rendered frame (ms), advances the animations
+let lastRenderTime = null;
+// Seconds of danger left when the last warning beep played (null while out of danger)
+let dangerBeep = null;
+// Shared seeds are played without assists so scores can be compared
+let difficulty = urlSeed ? getDifficulty(COMPETITIVE_DIFFICULTY) : loadDifficulty();
+// Fruit set of the next game, loaded from the theme select
+let selectedTheme = DEFAULT_THEME;
+// Themes loaded so far, keyed by theme select value
+const loadedThemes = { '': DEFAULT_THEME };
+// Table layout of the next game (null for the bare table), and levels loaded so far by level select value
+let selectedLevel = null;
+const loadedLevels = { '': null };
+// Level editor, while editing (the simulation is paused)
+let editor = null;
+// Headless simulation holding all game state, in world units whatever the display size
+const world = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT);
+// Maps the world onto the canvas, which follows the size of its container
+const viewport = new Viewport(canvas, world.width, world.height);
+// Pre-rendered fruits, rebuilt when the theme or the pixel ratio changes
+const sprites = new FruitSpriteCache();
+// Fill percentage shown by the gauge (redrawn only when it changes)
+let shownFill = -1;
+// Cue offset shown by the spin picker (redrawn only when it changes)
+let shownOffset = null;
+// Records every live game so it can be exported as a replay
+const recorder = new ReplayRecorder(world);
+/**
+ * Replay playback state
+ * When a replay is loaded the world is driven by it instead of the player
+ */
+let replayPlayer = null;
+let replayPaused = false;
+let replaySpeed = 1; // Frames simulated per rendered frame
+let versus = null;
+const opponentWorld = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT);
+// Keep the HUD in sync with the simulation
+world.on('score', (score) => {
+    scoreEl.textContent = score.toString();
+    updatePlayerPanels();
 });
-// Handle fruit launching when mouse is clicked
-canvas.addEventListener('mousedown', () => {
-    if (fruitToLaunch) {
-        // Calculate launch direction and speed
-        const dx = mousePos.x - fruitToLaunch.x;
-        const dy = mousePos.y - fruitToLaunch.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        const speed = Math.min(distance * 0.1, 30); // Proportional to distance, max speed of 30
-        const angle = Math.atan2(dy, dx);
-        // Set initial velocity
-        fruitToLaunch.vx = Math.cos(angle) * speed;
-        fruitToLaunch.vy = Math.sin(angle) * speed;
-        // Add to game world and clear launch fruit
-        fruits.push(fruitToLaunch);
-        fruitToLaunch = null; // Prevent launching another fruit
-        // Prepare next fruit after a delay
-        setTimeout(() => {
-            prepareNextFruit();
-        }, 1000);
-    }
-});
-/**
- * Initializes the game state and starts the game loop
+world.on('launch', (launch) => {
+    updatePlayerPanels(); // Next player's turn
+    sounds.launch(Math.sqrt(launch.fruit.vx * launch.fruit.vx + launch.fruit.vy * launch.fruit.vy) / MAX_LAUNCH_SPEED);
+});
+world.on('impact', (impact) => {
+    sounds.impact(impact.speed, impact.wall);
+});
+world.on('merge', (merge) => {
+    sounds.merge(merge.rank);
+    effects.burst(merge.x, merge.y, merge.fruit.radius, merge.fruit.color);
+    effects.growIn(merge.fruit);
+    effects.popup(merge.x, merge.y - merge.fruit.radius, `+${merge.points}`, world.players > 1 ? PLAYER_COLORS[merge.player] : '#fff');
+    const bigRank = merge.rank - (world.theme.fruits.length - BIG_MERGE_RANKS);
+    if (bigRank >= 0)
+        effects.shake((bigRank + 1) / BIG_MERGE_RANKS);
+});
+world.on('combo', (combo) => {
+    // Only chains of two merges or more are worth showing
+    comboEl.textContent = combo.count >= 2 ? `x${combo.multiplier} (${combo.count} merges)` : '-';
+    comboEl.classList.toggle('active', combo.count >= 2);
+});
+world.on('reset', () => {
+    effects.clear();
+    clearsEl.textContent = '0';
+    pocketedEl.textContent = '0';
+    buildPlayerPanels();
+});
+world.on('restore', () => {
+    effects.clear();
+    clearsEl.textContent = world.watermelonClears.toString();
+    endOfChainSelect.value = world.endOfChain;
+    specialSelect.value = world.specialRate.toString();
+    pocketedEl.textContent = world.pocketed.toString();
+    tableSelect.value = world.pockets.length > 0 ? 'pool' : 'box';
+    selectTheme(world.theme);
+    selectLevel(world.level);
+    playerCountSelect.value = world.players.toString();
+    buildPlayerPanels();
+});
+world.on('nextfruit', () => {
+    drawNextFruit();
+});
+world.on('pocket', (pocket) => {
+    pocketedEl.textContent = pocket.pocketed.toString();
+});
+world.on('clear', (clear) => {
+    clearsEl.textContent = clear.clears.toString();
+    effects.burst(clear.x, clear.y, world.theme.fruits[world.theme.fruits.length - 1].radius, '#FFD54F');
+    effects.popup(clear.x, clear.y, `+${clear.points}`, world.players > 1 ? PLAYER_COLORS[clear.player] : '#FFD54F');
+    effects.shake(1);
+});
+world.on('settle', () => {
+    if (replayPlayer || versus || world.gameOver)
+        return;
+    if (continueScreen.style.display !== 'none')
+        return; // Keep the save offered until the player picks
+    saveGame();
+});
+world.on('gameover', (score) => {
+    sounds.gameOver();
+    if (replayPlayer || versus)
+        return; // No game over screen while watching a replay, versus matches have their own
+    clearSavedGame();
+    gameOverTitleEl.textContent = GAME_OVER_TITLES[world.endReason || 'fill'];
+    finalScoreEl.textContent = score.toString();
+    finalClearsEl.textContent = world.watermelonClears.toString();
+    // Hot-seat games rank the players instead, high scores are for solo games
+    const hotSeat = world.players > 1;
+    finalScoreLineEl.style.display = hotSeat ? 'none' : '';
+    resultsEl.style.display = hotSeat ? '' : 'none';
+    highScoresSectionEl.style.display = hotSeat ? 'none' : '';
+    if (hotSeat) {
+        showResults();
+    }
+    else {
+        showHighScores(recordHighScore({ score, date: Date.now(), seed: world.seed }));
+    }
+    gameOverScreen.style.display = 'block';
+});
+// Aim and power of the next launch, set from pointers and the keyboard
+const controls = new LaunchControls();
+/**
+ * Cached trajectory prediction
+ * Only recomputed when the aim changes or the table moved since the last prediction
+ */
+let prediction = null;
+let predictionAim = null;
+let predictionOffset = null;
+let predictionFrame = -1;
+let predictionLaunchFruit = null;
+// Steps after which a prediction is refreshed even if the aim didn't change
+const PREDICTION_REFRESH_STEPS = 10;
+/**
+ * Returns the predicted path of the next launch for the current aim
+ */
+function getPrediction() {
+    const fruitToLaunch = world.fruitToLaunch;
+    if (!fruitToLaunch)
+        return null;
+    const aim = controls.aim();
+    const aimChanged = !predictionAim || predictionAim.x !== aim.x || predictionAim.y !== aim.y ||
+        predictionOffset !== controls.offset;
+    const tableChanged = world.frame - predictionFrame >= PREDICTION_REFRESH_STEPS || world.frame < predictionFrame;
+    if (aimChanged || tableChanged || predictionLaunchFruit !== fruitToLaunch) {
+        prediction = predictLaunch(world, aim, controls.offset);
+        predictionAim = aim;
+        predictionOffset = controls.offset;
+        predictionFrame = world.frame;
+        predictionLaunchFruit = fruitToLaunch;
+    }
+    return prediction;
+}
+/**
+ * Converts pointer event coordinates to world coordinates
+ */
+function getPointerPos(evt) {
+    return viewport.toWorld(evt.clientX, evt.clientY);
+}
+// Space (CSS px) kept below the canvas, and the smallest height it is shrunk to for short windows
+const CANVAS_MARGIN = 10;
+const MIN_CANVAS_HEIGHT = 240;
+/**
+ * Fits the canvas in its container and the window height, at the screen's pixel density
+ * Only the display changes, the world keeps its size so the physics is the same at every size
+ */
+function resizeCanvas() {
+    const border = canvas.offsetWidth - canvas.clientWidth;
+    const availableWidth = canvasContainer.clientWidth - border;
+    const availableHeight = window.innerHeight - (canvasContainer.getBoundingClientRect().top + window.scrollY) - border - CANVAS_MARGIN;
+    viewport.fit(availableWidth, Math.max(availableHeight, MIN_CANVAS_HEIGHT), window.devicePixelRatio || 1);
+}
+/**
+ * Whether player input may launch a fruit
+ */
+function canShoot() {
+    if (editor || replayPlayer)
+        return false; // Editing the table or watching a replay
+    if (versus)
+        return versus.session !== null && !versus.session.match.result;
+    if (startScreen.style.display !== 'none')
+        return false; // No game until a mode is chosen
+    if (continueScreen.style.display !== 'none')
+        return false; // Nor until a saved game is continued or dropped
+    return !world.gameOver;
+}
+/**
+ * Launches the next fruit along an aim from the controls
+ * The launch is applied between two steps, so it is recorded with the current frame
+ */
+function shoot(aim) {
+    if (!aim || !canShoot())
+        return;
+    if (versus && versus.session) {
+        versus.session.launch(aim, controls.offset); // Applied on both clients a few steps later
+    }
+    else {
+        world.launch(aim, controls.offset);
+    }
+}
+/**
+ * Sets the cue offset from a pointer on the spin picker, which shows the fruit as seen by the cue
+ */
+function pickSpin(evt) {
+    const rect = spinPicker.getBoundingClientRect();
+    const radius = spinPicker.width / 2;
+    const x = (evt.clientX - rect.left) * (spinPicker.width / rect.width);
+    const y = (evt.clientY - rect.top) * (spinPicker.height / rect.height);
+    controls.setOffset({ x: (x - radius) / radius, y: (radius - y) / radius });
+}
+spinPicker.addEventListener('pointerdown', (evt) => {
+    spinPicker.setPointerCapture(evt.pointerId);
+    pickSpin(evt);
+});
+spinPicker.addEventListener('pointermove', (evt) => {
+    if (spinPicker.hasPointerCapture(evt.pointerId))
+        pickSpin(evt);
+});
+spinPicker.addEventListener('dblclick', () => controls.setOffset({ x: 0, y: 0 }));
+// Pointer input (mouse, pen and touch): a press pulls the slingshot back, the release shoots
+// Pointers are captured so a pull can leave the canvas
+canvas.addEventListener('pointerdown', (evt) => {
+    const point = getPointerPos(evt);
+    canvas.setPointerCapture(evt.pointerId);
+    if (editor) {
+        editor.pointerDown(point);
+        return;
+    }
+    if (!canShoot() || !evt.isPrimary)
+        return;
+    controls.pointerDown(evt.pointerId, point);
+    evt.preventDefault();
+});
+canvas.addEventListener('pointermove', (evt) => {
+    const point = getPointerPos(evt);
+    if (editor) {
+        editor.pointerMove(point);
+        return;
+    }
+    controls.pointerMove(evt.pointerId, point);
+    if (evt.pointerType !== 'touch' && world.fruitToLaunch) {
+        controls.hover(point, world.fruitToLaunch); // Hovering mouse or pen aims at the cursor
+    }
+});
+canvas.addEventListener('pointerup', (evt) => {
+    if (editor) {
+        editor.pointerUp(getPointerPos(evt));
+        return;
+    }
+    shoot(controls.pointerUp(evt.pointerId));
+});
+canvas.addEventListener('pointercancel', () => {
+    controls.cancel();
+});
+// Keyboard play: arrow keys rotate the aim, holding Space charges power and releasing it shoots,
+// W, A, S and D move the cue offset and X centers it
+// Keys typed into the HUD controls are left alone
+window.addEventListener('keydown', (evt) => {
+    if (isFormControl(evt.target) || !canShoot())
+        return;
+    if (controls.keyDown(evt.key, evt.shiftKey))
+        evt.preventDefault();
+});
+window.addEventListener('keyup', (evt) => {
+    if (isFormControl(evt.target))
+        return;
+    const aim = controls.keyUp(evt.key, evt.shiftKey);
+    if (aim) {
+        evt.preventDefault();
+        shoot(aim);
+    }
+});
+window.addEventListener('blur', () => controls.cancel());
+/**
+ * Whether a keyboard event comes from a HUD control that uses the keys itself
+ */
+function isFormControl(target) {
+    return target instanceof HTMLInputElement || target instanceof HTMLSelectElement ||
+        target instanceof HTMLButtonElement || target instanceof HTMLTextAreaElement;
+}
+/**
+ * Initializes the game state for a new game in the given mode
  * Called when starting a new game or restarting
  */
-function init() {
-    score = 0;
-    gameOver = false;
-    fruits = [];
-    scoreEl.textContent = score.toString();
+function init(mode) {
+    leaveVersus();
     gameOverScreen.style.display = 'none';
-    fruitInQueue = generateRandomFruit();
-    prepareNextFruit();
-    gameLoop();
-}
-/**
- * Checks if a fruit at the given position would overlap with existing fruits
- * Used for spawning new fruits in non-overlapping positions
- */
-function isOverlapping(x, y, radius) {
-    for (let i = 0; i < fruits.length; i++) {
-        const fruit = fruits[i];
-        const dx = x - fruit.x;
-        const dy = y - fruit.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        if (distance < radius + fruit.radius) {
-            return true;
-        }
+    startScreen.style.display = 'none';
+    world.endOfChain = endOfChainSelect.value; // Rules only change between games
+    world.theme = selectedTheme;
+    world.mode = mode;
+    world.pockets = tableSelect.value === 'pool' ? poolPockets(world.width, world.height) : [];
+    world.level = selectedLevel;
+    world.players = Number(playerCountSelect.value);
+    world.specialRate = Number(specialSelect.value);
+    world.reset(urlSeed ? urlSeed.seed : undefined);
+    showMode();
+    seedEl.textContent = world.seed.toString();
+    seedLabelEl.textContent = urlSeed ? urlSeed.label : 'Random';
+}
+/**
+ * Makes a theme the one used from the next game, listing it in the theme select if needed
+ */
+function selectTheme(theme) {
+    selectedTheme = theme;
+    loadedThemes[showOption(themeSelect, theme.id, theme.name)] = theme;
+}
+/**
+ * Makes a level the one used from the next game (null for the bare table)
+ */
+function selectLevel(level) {
+    selectedLevel = level;
+    loadedLevels[level ? showOption(levelSelect, level.id, level.name) : showOption(levelSelect, '', '')] = level;
+}
+/**
+ * Selects the option of a theme or level select showing the given id
+ * Adds an option for files loaded from disk, returns the option value
+ */
+function showOption(select, id, name) {
+    let option = Array.from(select.options).find((element) => element.dataset.id === id);
+    if (!option) {
+        option = document.createElement('option');
+        option.value = `loaded:${id}`;
+        option.dataset.id = id;
+        option.textContent = name;
+        select.appendChild(option);
+    }
+    select.value = option.value;
+    return option.value;
+}
+/**
+ * Loads the theme of a theme select option
+ * The built-in theme has an empty value, bundled themes are fetched from their file
+ */
+function loadTheme(value) {
+    if (loadedThemes[value])
+        return Promise.resolve(loadedThemes[value]);
+    return fetchText(value).then((text) => parseTheme(text));
+}
+/**
+ * Loads the level of a level select option
+ * The bare table has an empty value, bundled levels are fetched from their file
+ */
+function loadLevel(value) {
+    if (value in loadedLevels)
+        return Promise.resolve(loadedLevels[value]);
+    return fetchText(value).then((text) => parseLevel(text));
+}
+/**
+ * Fetches a bundled file
+ */
+function fetchText(url) {
+    return fetch(url).then((response) => {
+        if (!response.ok)
+            throw new Error(`${url}: ${response.status} ${response.statusText}`);
+        return response.text();
+    });
+}
+/**
+ * Opens the level editor on a copy of the selected level
+ * The game is paused until the edited level is played
+ */
+function startEditor() {
+    const level = selectedLevel ? JSON.parse(JSON.stringify(selectedLevel)) : emptyLevel();
+    editor = new LevelEditor(level);
+    editor.tool = editorToolSelect.value;
+    editor.surface = editorSurfaceSelect.value;
+    editorControls.style.display = 'flex';
+    editLevelButton.style.display = 'none';
+}
+/**
+ * Leaves the editor and starts a game on the edited level
+ */
+function playEditedLevel() {
+    if (!editor)
+        return;
+    selectLevel(editor.level);
+    editor = null;
+    editorControls.style.display = 'none';
+    editLevelButton.style.display = '';
+    init(world.mode);
+}
+/**
+ * Shows the HUD elements of the current game mode
+ */
+function showMode() {
+    modeLabelEl.textContent = world.mode.label;
+    timeLeftEl.style.display = world.mode.timeLimit !== null ? 'block' : 'none';
+    shotsLeftEl.style.display = world.mode.shotLimit !== null ? 'block' : 'none';
+    updateModeHud();
+}
+/**
+ * Refreshes the time and shots left
+ */
+function updateModeHud() {
+    const remainingTime = world.remainingTime();
+    if (remainingTime !== null) {
+        const seconds = Math.ceil(remainingTime);
+        const padding = seconds % 60 < 10 ? '0' : '';
+        setText(timeLeftEl, `${Math.floor(seconds / 60)}:${padding}${seconds % 60} left`);
+    }
+    const remainingShots = world.remainingShots();
+    if (remainingShots !== null) {
+        setText(shotsLeftEl, `${remainingShots} shots left`);
+    }
+}
+/**
+ * Shows the start screen, where the game mode is chosen
+ */
+function showStartScreen() {
+    leaveVersus();
+    gameOverScreen.style.display = 'none';
+    startScreen.style.display = 'block';
+}
+/**
+ * Reads the high-score tables from localStorage
+ */
+function loadHighScores() {
+    try {
+        return parseHighScores(localStorage.getItem(HIGH_SCORES_KEY) || '{}');
+    }
+    catch (e) {
+        return {};
+    }
+}
+/**
+ * Adds a finished game to the high scores of the current mode
+ * Returns its position in the table, or -1 when it didn't make it
+ */
+function recordHighScore(entry) {
+    const tables = loadHighScores();
+    const rank = addHighScore(tables, world.mode.id, entry);
+    try {
+        localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(tables));
+    }
+    catch (e) {
+        console.warn('Cannot save high scores', e);
+    }
+    return rank;
+}
+/**
+ * Lists the high scores of the current mode on the game over screen
+ * highlight is the position of the game just played (-1 for none)
+ */
+function showHighScores(highlight) {
+    const table = loadHighScores()[world.mode.id] || [];
+    highScoresEl.innerHTML = '';
+    table.forEach((entry, index) => {
+        const item = document.createElement('li');
+        item.textContent = `${entry.score} (${new Date(entry.date).toLocaleDateString()})`;
+        item.classList.toggle('current', index === highlight);
+        highScoresEl.appendChild(item);
+    });
+}
+/**
+ * Creates one score panel per player, hidden for solo games
+ */
+function buildPlayerPanels() {
+    playerPanelsEl.innerHTML = '';
+    playersSectionEl.style.display = world.players > 1 ? '' : 'none';
+    for (let player = 0; player < world.players; player++) {
+        const panel = document.createElement('div');
+        panel.className = 'player-panel';
+        panel.style.borderColor = PLAYER_COLORS[player];
+        const name = document.createElement('span');
+        name.textContent = `Player ${player + 1}`;
+        name.style.color = PLAYER_COLORS[player];
+        const score = document.createElement('span');
+        score.className = 'player-score';
+        panel.appendChild(name);
+        panel.appendChild(score);
+        playerPanelsEl.appendChild(panel);
+    }
+    updatePlayerPanels();
+}
+/**
+ * Shows each player's score and whose turn it is
+ */
+function updatePlayerPanels() {
+    const current = world.currentPlayer();
+    Array.from(playerPanelsEl.children).forEach((panel, player) => {
+        setText(panel.querySelector('.player-score'), (world.playerScores[player] || 0).toString());
+        panel.classList.toggle('active', player === current && !world.gameOver);
+    });
+}
+/**
+ * Fills the game over results table, best score first (tied players share a place)
+ */
+function showResults() {
+    const ranking = world.playerScores
+        .map((score, player) => ({ player, score }))
+        .sort((a, b) => b.score - a.score || a.player - b.player);
+    resultsBodyEl.innerHTML = '';
+    let place = 0;
+    ranking.forEach((entry, index) => {
+        if (index === 0 || entry.score !== ranking[index - 1].score)
+            place = index + 1;
+        const row = document.createElement('tr');
+        [place.toString(), `Player ${entry.player + 1}`, entry.score.toString()].forEach((text) => {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+        });
+        row.style.color = PLAYER_COLORS[entry.player];
+        resultsBodyEl.appendChild(row);
+    });
+}
+/**
+ * Autosaves the game in progress to localStorage
+ */
+function saveGame() {
+    try {
+        localStorage.setItem(SAVE_KEY, serializeGame(world.snapshot(), recorder.getLaunches()));
+    }
+    catch (e) {
+        console.warn('Cannot save game', e);
+    }
+}
+/**
+ * Reads the game saved in localStorage, if any
+ * Unreadable saves are discarded
+ */
+function loadSavedGame() {
+    try {
+        const text = localStorage.getItem(SAVE_KEY);
+        return text ? deserializeGame(text) : null;
+    }
+    catch (e) {
+        console.warn('Discarding saved game', e);
+        clearSavedGame();
+        return null;
+    }
+}
+/**
+ * Removes the saved game, once it is over
+ */
+function clearSavedGame() {
+    try {
+        localStorage.removeItem(SAVE_KEY);
+    }
+    catch (e) {
+        // Storage unavailable, nothing to clear
+    }
+}
+/**
+ * Resumes a saved game where it was left
+ */
+function resumeGame(save) {
+    gameOverScreen.style.display = 'none';
+    world.restore(save.world);
+    recorder.resume(save.launches);
+    showMode();
+    seedEl.textContent = world.seed.toString();
+    seedLabelEl.textContent = 'Resumed';
+}
+/**
+ * Downloads a replay as a JSON file
+ */
+function downloadReplay(replay) {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `suika-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+/**
+ * Switches the game to playback of the given replay
+ */
+function startReplay(replay) {
+    replayPlayer = new ReplayPlayer(world, replay);
+    replayPaused = false;
+    gameOverScreen.style.display = 'none';
+    startScreen.style.display = 'none';
+    showMode();
+    replayControls.style.display = 'flex';
+    replaySeekInput.max = replay.frames.toString();
+    seedEl.textContent = replay.seed.toString();
+    seedLabelEl.textContent = 'Replay';
+    updateReplayControls();
+}
+/**
+ * Leaves replay playback and starts a new game
+ */
+function stopReplay() {
+    replayPlayer = null;
+    replayControls.style.display = 'none';
+    init(world.mode);
+}
+/**
+ * Refreshes the playback buttons and seek bar
+ */
+function updateReplayControls() {
+    if (!replayPlayer)
+        return;
+    setText(replayPlayButton, replayPaused ? 'Play' : 'Pause');
+    const frame = replayPlayer.frame.toString();
+    if (replaySeekInput.value !== frame) {
+        replaySeekInput.value = frame;
     }
-    return false;
+    setText(replayFrameEl, `${frame} / ${replayPlayer.replay.frames}`);
+}
+/**
+ * Connects to the versus server and joins a room, the match starts once a second player joins it
+ */
+function joinVersus() {
+    if (editor)
+        return;
+    let socket;
+    try {
+        socket = new WebSocket(versusServerInput.value);
+    }
+    catch (e) {
+        setText(versusStatusEl, `Cannot connect: ${e.message}`);
+        return;
+    }
+    const game = { socket, session: null };
+    const room = versusRoomInput.value || 'lobby';
+    versus = game;
+    replayPlayer = null;
+    replayControls.style.display = 'none';
+    gameOverScreen.style.display = 'none';
+    startScreen.style.display = 'none';
+    setText(versusButton, 'Leave');
+    setText(versusStatusEl, 'Connecting...');
+    socket.addEventListener('open', () => {
+        socket.send(JSON.stringify({ type: 'join', room }));
+        setText(versusStatusEl, `Waiting for an opponent in "${room}"`);
+    });
+    socket.addEventListener('message', (evt) => {
+        if (versus !== game)
+            return; // Left already
+        try {
+            receiveVersusMessage(game, parseVersusMessage(String(evt.data)));
+        }
+        catch (e) {
+            console.warn('Ignoring versus message', e);
+        }
+    });
+    socket.addEventListener('close', () => {
+        if (versus !== game || (game.session && game.session.match.result))
+            return;
+        setText(versusStatusEl, 'Disconnected from the server');
+    });
 }
 /**
- * Generates a random fruit from the first 5 types (ranks 0-4)
- * These are the only fruits that can be spawned initially
+ * Handles a message from the versus server
  */
-function generateRandomFruit() {
-    const typeIndex = Math.floor(Math.random() * 5);
-    return Object.assign(Object.assign({}, fruitTypes[typeIndex]), { typeIndex: typeIndex });
+function receiveVersusMessage(game, message) {
+    switch (message.type) {
+        case 'start':
+            startVersusMatch(game, message.seed, message.player);
+            break;
+        case 'turn':
+        case 'hash':
+            if (game.session)
+                game.session.receive(message);
+            break;
+        case 'left':
+            if (!game.session || !game.session.match.result)
+                setText(versusStatusEl, 'Your opponent left');
+            game.socket.close();
+            break;
+        case 'error':
+            setText(versusStatusEl, message.message);
+            game.socket.close();
+            break;
+    }
 }
 /**
- * Calculates the percentage of canvas area occupied by fruits
- * Used for the fill gauge and game over condition
+ * Starts the match once the server paired both players
+ * Both tables are reset with the shared seed, the local one being `world`
  */
-function calculateFillPercentage() {
-    const totalCanvasArea = canvas.width * canvas.height;
-    let occupiedArea = 0;
-    fruits.forEach((fruit) => {
-        // Calculate the area occupied by each fruit (circle area)
-        occupiedArea += Math.PI * fruit.radius * fruit.radius;
+function startVersusMatch(game, seed, player) {
+    const tables = player === 0 ? [world, opponentWorld] : [opponentWorld, world];
+    const match = new VersusMatch(seed, tables);
+    game.session = new LockstepSession(match, player, (message) => game.socket.send(JSON.stringify(message)));
+    game.session.onDesync = (turn) => {
+        setText(versusStatusEl, `Out of sync since turn ${turn}, the tables may differ from your opponent's`);
+    };
+    match.on('garbage', (garbage) => {
+        setText(versusStatusEl, garbage.to === player ? `${garbage.count} cherries incoming!` : `Sent ${garbage.count} cherries`);
     });
-    // Return percentage, capped at 100%
-    return Math.min((occupiedArea / totalCanvasArea) * 100, 100);
+    match.on('end', (result) => showVersusResult(result, player));
+    showMode();
+    seedEl.textContent = seed.toString();
+    seedLabelEl.textContent = 'Versus';
+    opponentTableEl.style.display = 'block';
+    setText(versusStatusEl, `Playing as player ${player + 1}`);
+}
+/**
+ * Shows the game over screen for a versus match
+ */
+function showVersusResult(result, player) {
+    gameOverTitleEl.textContent = result.winner === null ? 'Draw' : result.winner === player ? 'You win!' : 'You lose';
+    finalScoreEl.textContent = world.score.toString();
+    finalClearsEl.textContent = world.watermelonClears.toString();
+    finalScoreLineEl.style.display = '';
+    resultsEl.style.display = 'none';
+    highScoresSectionEl.style.display = 'none';
+    gameOverScreen.style.display = 'block';
+}
+/**
+ * Disconnects from the versus server, the next game is a local one
+ */
+function leaveVersus() {
+    if (!versus)
+        return;
+    const game = versus;
+    versus = null;
+    game.socket.close();
+    if (game.session)
+        game.session.match.dispose();
+    opponentTableEl.style.display = 'none';
+    setText(versusButton, 'Play online');
+    setText(versusStatusEl, '');
+}
+/**
+ * Sets the text of an element, leaving the DOM untouched when it is already shown
+ */
+function setText(element, text) {
+    if (element.textContent !== text) {
+        element.textContent = text;
+    }
+}
+/**
+ * Refreshes the sprite cache for the current theme and pixel ratio
+ * The next fruit preview is drawn from the sprites, so it is redrawn along with them
+ */
+function updateSprites() {
+    // Sharp on the table and in the next fruit preview, whichever is denser
+    if (sprites.update(world.theme, Math.max(viewport.pixelRatio, window.devicePixelRatio || 1))) {
+        drawNextFruit();
+    }
+}
+/**
+ * Draws the queued fruit in the UI panel
+ * Called when the queue changes, the preview canvas is reused
+ */
+function drawNextFruit() {
+    updateSprites();
+    const fruitInQueue = world.fruitInQueue;
+    const dpr = window.devicePixelRatio || 1; // High DPI support
+    const size = fruitInQueue.radius * 2;
+    // Size the canvas to the fruit with high DPI scaling
+    nextFruitCanvas.width = size * dpr;
+    nextFruitCanvas.height = size * dpr;
+    nextFruitCanvas.style.width = size + 'px';
+    nextFruitCanvas.style.height = size + 'px';
+    nextFruitCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    sprites.drawFruit(nextFruitCtx, fruitInQueue, size / 2, size / 2);
+    setText(nextFruitName, fruitInQueue.name);
+}
+/**
+ * Draws the spin picker: the fruit as seen by the cue, with the reachable area and the cue offset
+ */
+function drawSpinPicker() {
+    const offset = controls.offset;
+    if (shownOffset === offset)
+        return;
+    shownOffset = offset;
+    const radius = spinPicker.width / 2;
+    spinCtx.clearRect(0, 0, spinPicker.width, spinPicker.height);
+    spinCtx.beginPath();
+    spinCtx.arc(radius, radius, radius - 1, 0, Math.PI * 2);
+    spinCtx.fillStyle = '#fff';
+    spinCtx.fill();
+    spinCtx.strokeStyle = '#333';
+    spinCtx.lineWidth = 1;
+    spinCtx.stroke();
+    // Reachable area and center lines
+    spinCtx.strokeStyle = '#bbb';
+    spinCtx.setLineDash([3, 3]);
+    spinCtx.beginPath();
+    spinCtx.arc(radius, radius, radius * MAX_CUE_OFFSET, 0, Math.PI * 2);
+    spinCtx.moveTo(radius, 0);
+    spinCtx.lineTo(radius, radius * 2);
+    spinCtx.moveTo(0, radius);
+    spinCtx.lineTo(radius * 2, radius);
+    spinCtx.stroke();
+    spinCtx.setLineDash([]);
+    // Where the cue strikes
+    spinCtx.beginPath();
+    spinCtx.arc(radius + offset.x * radius, radius - offset.y * radius, radius * 0.12, 0, Math.PI * 2);
+    spinCtx.fillStyle = '#D80E4B';
+    spinCtx.fill();
 }
 /**
  * Draws the vertical fill percentage gauge
- * Includes color interpolation, threshold line, and game over detection
+ * Includes color interpolation and threshold line
  */
 function drawFillGauge() {
-    const gaugeCtx = fillGaugeCanvas.getContext('2d');
     const gaugeWidth = fillGaugeCanvas.width;
     const gaugeHeight = fillGaugeCanvas.height;
-    const fillPercentage = calculateFillPercentage();
+    const fillPercentage = world.calculateFillPercentage();
+    // The fill only changes when fruits are added, merged or cleared
+    if (fillPercentage === shownFill)
+        return;
+    shownFill = fillPercentage;
     // Clear the canvas
     gaugeCtx.clearRect(0, 0, gaugeWidth, gaugeHeight);
     // Draw gauge background
     gaugeCtx.fillStyle = '#e0e0e0';
     gaugeCtx.fillRect(0, 0, gaugeWidth, gaugeHeight);
-    // Draw 90% threshold line (game over line)
-    const thresholdY = gaugeHeight * 0.1; // 90% from bottom = 10% from top
+    // Draw the fill limit line (danger line)
+    const thresholdY = gaugeHeight * (1 - FILL_LIMIT / 100);
     gaugeCtx.strokeStyle = '#000';
     gaugeCtx.lineWidth = 2;
     gaugeCtx.setLineDash([5, 5]); // Dashed line
@@ -177,497 +1026,504 @@ function drawFillGauge() {
     gaugeCtx.lineWidth = 2;
     gaugeCtx.strokeRect(0, 0, gaugeWidth, gaugeHeight);
     // Update percentage text display
-    fillPercentageEl.textContent = `${Math.round(fillPercentage)}%`;
-    // Check for game over condition (90% fill threshold)
-    if (fillPercentage >= 90 && !gameOver) {
-        gameOver = true;
-        finalScoreEl.textContent = score.toString();
-        gameOverScreen.style.display = 'block';
-    }
-}
-/**
- * Prepares the next fruit to be launched
- * Places it at the bottom of the canvas, finding a non-overlapping position
- */
-function prepareNextFruit() {
-    // Get the next fruit from queue and generate a new one for the queue
-    const newFruitType = fruitInQueue;
-    fruitInQueue = generateRandomFruit();
-    const radius = newFruitType.radius;
-    const y = canvas.height - 50; // Position near bottom of canvas
-    let x = canvas.width / 2; // Start at center
-    // Find a non-overlapping position if center is occupied
-    if (isOverlapping(x, y, radius)) {
-        let searchOffset = 5; // Start searching 5px away
-        while (true) {
-            // Check right side
-            let rightX = x + searchOffset;
-            if (rightX + radius < canvas.width && !isOverlapping(rightX, y, radius)) {
-                x = rightX;
-                break;
-            }
-            // Check left side
-            let leftX = x - searchOffset;
-            if (leftX - radius > 0 && !isOverlapping(leftX, y, radius)) {
-                x = leftX;
-                break;
-            }
-            searchOffset += 5; // search in 5px steps
-            if (x - searchOffset < 0 && x + searchOffset > canvas.width) {
-                // No space found, just spawn in the middle and let it overlap
-                break;
+    setText(fillPercentageEl, `${Math.round(fillPercentage)}%`);
+}
+// Fruit poses captured before the last step (fruits created since then have none)
+let previousPoses = new WeakMap();
+/**
+ * Runs one fixed simulation step
+ * Steps the world (or the replay being watched) after recording the current poses
+ */
+function simulationStep() {
+    if (editor)
+        return; // The table is being edited
+    controls.update(FIXED_TIMESTEP);
+    previousPoses = new WeakMap();
+    world.fruits.forEach((fruit) => {
+        previousPoses.set(fruit, { x: fruit.x, y: fruit.y, angle: fruit.angle });
+    });
+    if (versus) {
+        if (versus.session)
+            versus.session.advance(); // Waits for the opponent's launches
+    }
+    else if (replayPlayer) {
+        if (!replayPaused) {
+            for (let i = 0; i < replaySpeed; i++) {
+                replayPlayer.advance();
             }
         }
     }
-    // Create the fruit to be launched with calculated position
-    fruitToLaunch = Object.assign(Object.assign({}, newFruitType), { x,
-        y, vx: 0, vy: 0, angle: 0 // No initial rotation
-     });
-}
-/**
- * Main game loop - runs continuously while game is active
- * Updates game state and renders the frame
- */
-function gameLoop() {
-    if (gameOver)
-        return; // Stop loop when game is over
-    update(); // Update physics and game logic
-    draw(); // Render the current frame
-    requestAnimationFrame(gameLoop); // Schedule next frame
-}
-/**
- * Updates all game objects and physics
- * Handles movement, collisions, merging, and wall bounces
- */
-function update() {
-    // Update physics for all fruits
-    fruits.forEach((fruit) => {
-        // Apply friction to gradually slow down fruits
-        fruit.vx *= 0.98;
-        fruit.vy *= 0.98;
-        // Update position based on velocity
-        fruit.x += fruit.vx;
-        fruit.y += fruit.vy;
-        // Rotate fruit based on horizontal velocity for visual effect
-        fruit.angle += fruit.vx * 0.05;
-        // Handle wall collisions (all 4 walls)
-        if (fruit.x - fruit.radius < 0) {
-            fruit.x = fruit.radius;
-            fruit.vx *= -0.7; // Bounce with energy loss
-        }
-        else if (fruit.x + fruit.radius > canvas.width) {
-            fruit.x = canvas.width - fruit.radius;
-            fruit.vx *= -0.7;
-        }
-        if (fruit.y - fruit.radius < 0) { // Top wall
-            fruit.y = fruit.radius;
-            fruit.vy *= -0.7;
-        }
-        else if (fruit.y + fruit.radius > canvas.height) { // Bottom wall
-            fruit.y = canvas.height - fruit.radius;
-            fruit.vy *= -0.7;
-        }
+    else {
+        world.step(); // Update physics and game logic (no-op once game is over)
+    }
+    warnDanger();
+}
+/**
+ * Beeps once per second left while the table is over the fill limit
+ */
+function warnDanger() {
+    const remaining = world.remainingDanger();
+    const seconds = remaining === null || world.gameOver ? null : Math.ceil(remaining);
+    if (seconds !== null && seconds !== dangerBeep)
+        sounds.danger();
+    dangerBeep = seconds;
+}
+/**
+ * Renders one display frame
+ * alpha is how far the display time is between the last two simulation steps
+ */
+function renderFrame(alpha) {
+    const now = performance.now();
+    effects.update(lastRenderTime === null ? 0 : Math.min((now - lastRenderTime) / 1000, MAX_EFFECT_STEP));
+    lastRenderTime = now;
+    updateReplayControls();
+    updateModeHud();
+    draw(alpha);
+    if (versus && versus.session)
+        drawOpponentTable();
+}
+/**
+ * Returns where a fruit should be drawn, interpolated between the last two steps
+ */
+function interpolatePose(fruit, alpha) {
+    const previous = previousPoses.get(fruit);
+    if (!previous) {
+        return { x: fruit.x, y: fruit.y, angle: fruit.angle };
+    }
+    return {
+        x: previous.x + (fruit.x - previous.x) * alpha,
+        y: previous.y + (fruit.y - previous.y) * alpha,
+        angle: previous.angle + (fruit.angle - previous.angle) * alpha
+    };
+}
+// Main game loop: fixed simulation steps, rendering at the display rate
+const gameLoop = new FixedTimestepLoop(simulationStep, renderFrame);
+/**
+ * Draws the level being edited: obstacles, starting fruits and the editor overlay
+ */
+function drawEditor(levelEditor) {
+    drawObstacles(ctx, levelEditor.level.obstacles);
+    levelEditor.level.fruits.forEach((fruit) => {
+        const type = world.theme.fruits[Math.min(fruit.typeIndex, world.theme.fruits.length - 1)];
+        sprites.drawShadow(ctx, type, fruit.x, fruit.y);
+        sprites.drawFruit(ctx, type, fruit.x, fruit.y);
     });
-    // Handle fruit-to-fruit collisions and merging
-    for (let i = 0; i < fruits.length; i++) {
-        for (let j = i + 1; j < fruits.length; j++) {
-            const f1 = fruits[i];
-            const f2 = fruits[j];
-            const dx = f2.x - f1.x;
-            const dy = f2.y - f1.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            const minDistance = f1.radius + f2.radius;
-            // Check if fruits are colliding
-            if (distance < minDistance) {
-                // Separate overlapping fruits
-                const angle = Math.atan2(dy, dx);
-                const overlap = minDistance - distance;
-                const tx = Math.cos(angle) * overlap;
-                const ty = Math.sin(angle) * overlap;
-                // Move fruits apart by half the overlap distance each
-                f1.x -= tx / 2;
-                f1.y -= ty / 2;
-                f2.x += tx / 2;
-                f2.y += ty / 2;
-                // Apply elastic collision physics
-                const v1 = { x: f1.vx, y: f1.vy };
-                const v2 = { x: f2.vx, y: f2.vy };
-                // Use radius as mass for collision calculation
-                const m1 = f1.radius;
-                const m2 = f2.radius;
-                // Calculate new velocities using elastic collision formula
-                const v1_new_x = (v1.x * (m1 - m2) + 2 * m2 * v2.x) / (m1 + m2);
-                const v1_new_y = (v1.y * (m1 - m2) + 2 * m2 * v2.y) / (m1 + m2);
-                const v2_new_x = (v2.x * (m2 - m1) + 2 * m1 * v1.x) / (m1 + m2);
-                const v2_new_y = (v2.y * (m2 - m1) + 2 * m1 * v1.y) / (m1 + m2);
-                // Apply new velocities with slight energy loss
-                f1.vx = v1_new_x * 0.95;
-                f1.vy = v1_new_y * 0.95;
-                f2.vx = v2_new_x * 0.95;
-                f2.vy = v2_new_y * 0.95;
-                // Check for fruit merging (same type and not the largest fruit)
-                if (f1.typeIndex === f2.typeIndex && f1.typeIndex < fruitTypes.length - 1) {
-                    const newTypeIndex = f1.typeIndex + 1;
-                    const newFruitType = fruitTypes[newTypeIndex];
-                    // Calculate merged fruit velocity using momentum conservation
-                    const m1 = f1.radius;
-                    const m2 = f2.radius;
-                    const newMass = newFruitType.radius;
-                    const newVx = ((m1 * f1.vx + m2 * f2.vx) / newMass) * 0.5;
-                    const newVy = ((m1 * f1.vy + m2 * f2.vy) / newMass) * 0.5;
-                    // Create the new merged fruit
-                    const newFruit = Object.assign(Object.assign({}, newFruitType), { x: (f1.x + f2.x) / 2, y: (f1.y + f2.y) / 2, vx: newVx, vy: newVy, typeIndex: newTypeIndex, angle: 0 });
-                    // Remove old fruits and add new one
-                    fruits.splice(j, 1); // Remove second fruit first (higher index)
-                    fruits.splice(i, 1); // Then remove first fruit
-                    fruits.push(newFruit);
-                    // Update score
-                    score += fruitTypes[newTypeIndex].score;
-                    scoreEl.textContent = score.toString();
-                    break; // Exit collision loop since fruits were modified
-                }
-            }
-        }
+    levelEditor.draw(ctx, world.width, world.height);
+}
+/**
+ * Draws the overfilled table warning: a pulsing red frame and the countdown to game over
+ */
+function drawDangerWarning(remainingDanger) {
+    const pulse = 0.5 + 0.5 * Math.sin(performance.now() / 1000 * Math.PI * 4); // Two pulses per second
+    ctx.strokeStyle = `rgba(216, 14, 75, ${0.4 + 0.4 * pulse})`;
+    ctx.lineWidth = 16;
+    ctx.strokeRect(0, 0, world.width, world.height);
+    ctx.fillStyle = 'rgba(216, 14, 75, 0.85)';
+    ctx.font = 'bold 48px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`Too full! ${remainingDanger.toFixed(1)}`, world.width / 2, world.height / 2);
+}
+/**
+ * Covers a fruit frozen by an Ice fruit with frost, fading as it thaws
+ */
+function drawFrost(fruit, pose) {
+    const strength = Math.min(1, (fruit.frozen || 0) / FREEZE_TIME + 0.3);
+    ctx.beginPath();
+    ctx.arc(pose.x, pose.y, fruit.radius, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(200, 235, 255, ${0.55 * strength})`;
+    ctx.fill();
+    ctx.strokeStyle = `rgba(255, 255, 255, ${strength})`;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+}
+/**
+ * Draws the opponent's table, scaled down next to the HUD
+ */
+function drawOpponentTable() {
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.round(opponentWorld.width * OPPONENT_SCALE);
+    const height = Math.round(opponentWorld.height * OPPONENT_SCALE);
+    if (opponentCanvas.width !== Math.round(width * dpr)) {
+        opponentCanvas.width = Math.round(width * dpr);
+        opponentCanvas.height = Math.round(height * dpr);
+        opponentCanvas.style.width = width + 'px';
+        opponentCanvas.style.height = height + 'px';
     }
+    opponentCtx.setTransform(OPPONENT_SCALE * dpr, 0, 0, OPPONENT_SCALE * dpr, 0, 0);
+    opponentCtx.clearRect(0, 0, opponentWorld.width, opponentWorld.height);
+    opponentWorld.fruits.forEach((fruit) => {
+        sprites.drawFruit(opponentCtx, fruit, fruit.x, fruit.y, fruit.angle);
+    });
+    const fruitToLaunch = opponentWorld.fruitToLaunch;
+    if (fruitToLaunch) {
+        sprites.drawFruit(opponentCtx, fruitToLaunch, fruitToLaunch.x, fruitToLaunch.y);
+    }
+    setText(opponentScoreEl, opponentWorld.score.toString());
 }
 /**
- * Draws different facial expressions based on fruit type
- * Each fruit category has a unique personality
- */
-function drawFruitExpression(ctx, radius, typeIndex) {
-    const eyeX = radius * 0.35;
-    const eyeY = -radius * 0.2;
-    const eyeRadius = radius * 0.1;
-    const mouthY = radius * 0.1;
-    const mouthRadius = radius * 0.5;
-    switch (typeIndex) {
-        case 0: // Cherry - Small and cute
-            // Small round eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 0.8, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 0.8, 0, 2 * Math.PI);
-            ctx.fill();
-            // Small "o" mouth
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 0.3, 0, 2 * Math.PI);
-            ctx.stroke();
-            break;
-        case 1: // Strawberry - Sweet and cheerful
-            // Normal eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            // Big happy smile
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius, 0, Math.PI, false);
-            ctx.stroke();
-            break;
-        case 2: // Grape - Mischievous
-            // Slightly squinted eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY - 2, eyeRadius * 0.7, 0, Math.PI, true);
-            ctx.stroke();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY - 2, eyeRadius * 0.7, 0, Math.PI, true);
-            ctx.stroke();
-            // Mischievous smirk
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 0.4, 0.5, Math.PI - 0.5, false);
-            ctx.stroke();
-            break;
-        case 3: // Dekopon - Confident
-            // Sharp eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 0.9, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 0.9, 0, 2 * Math.PI);
-            ctx.fill();
-            // Confident straight mouth
-            ctx.beginPath();
-            ctx.moveTo(-mouthRadius * 0.6, mouthY);
-            ctx.lineTo(mouthRadius * 0.6, mouthY);
-            ctx.stroke();
-            break;
-        case 4: // Persimmon - Wise
-            // Kind eyes with slight curve
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 1.1, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 1.1, 0, 2 * Math.PI);
-            ctx.fill();
-            // Prominent wise mustache
-            ctx.lineWidth = Math.max(2, radius * 0.08); // Thicker line for mustache
-            ctx.beginPath();
-            // Left side of mustache
-            ctx.moveTo(-mouthRadius * 0.6, mouthY - 2);
-            ctx.quadraticCurveTo(-mouthRadius * 0.3, mouthY - 8, -mouthRadius * 0.1, mouthY - 2);
-            // Right side of mustache
-            ctx.moveTo(mouthRadius * 0.1, mouthY - 2);
-            ctx.quadraticCurveTo(mouthRadius * 0.3, mouthY - 8, mouthRadius * 0.6, mouthY - 2);
-            ctx.stroke();
-            // Small mouth below mustache
-            ctx.lineWidth = Math.max(1, radius * 0.05); // Reset line width
-            ctx.beginPath();
-            ctx.arc(0, mouthY + 3, mouthRadius * 0.3, 0.2, Math.PI - 0.2, false);
-            ctx.stroke();
-            break;
-        case 5: // Apple - Classic happy
-            // Standard round eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            // Classic happy smile
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 0.8, 0.3, Math.PI - 0.3, false);
-            ctx.stroke();
-            break;
-        case 6: // Pear - Goofy
-            // Winking eyes - left eye closed, right eye open
-            // Left eye (winking)
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY - 2, eyeRadius * 0.7, 0, Math.PI, true);
-            ctx.stroke();
-            // Right eye (open)
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 1.2, 0, 2 * Math.PI);
-            ctx.fill();
-            // Goofy wide grin without teeth
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 1.4, 0.05, Math.PI - 0.05, false);
-            ctx.stroke();
-            break;
-        case 7: // Peach - Blushing
-            // Shy eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 0.9, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 0.9, 0, 2 * Math.PI);
-            ctx.fill();
-            // Shy "o" mouth
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 0.4, 0, 2 * Math.PI);
-            ctx.stroke();
-            break;
-        case 8: // Pineapple - Spiky personality
-            // Sharp eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 0.8, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 0.8, 0, 2 * Math.PI);
-            ctx.fill();
-            // Spiky teeth grin
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 1.0, 0.2, Math.PI - 0.2, false);
-            ctx.stroke();
-            // Add some "teeth" spikes
-            ctx.beginPath();
-            ctx.moveTo(-mouthRadius * 0.3, mouthY);
-            ctx.lineTo(-mouthRadius * 0.2, mouthY - 3);
-            ctx.moveTo(0, mouthY);
-            ctx.lineTo(0, mouthY - 4);
-            ctx.moveTo(mouthRadius * 0.3, mouthY);
-            ctx.lineTo(mouthRadius * 0.2, mouthY - 3);
-            ctx.stroke();
-            break;
-        case 9: // Melon - Big and friendly
-            // Large friendly eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 1.3, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 1.3, 0, 2 * Math.PI);
-            ctx.fill();
-            // Big friendly smile with dimples
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 1.2, 0.1, Math.PI - 0.1, false);
-            ctx.stroke();
-            // Dimples
-            ctx.beginPath();
-            ctx.arc(-mouthRadius * 0.8, mouthY - 2, 2, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(mouthRadius * 0.8, mouthY - 2, 2, 0, 2 * Math.PI);
-            ctx.fill();
-            break;
-        case 10: // Watermelon - King of fruits
-            // Regal eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius * 1.1, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius * 1.1, 0, 2 * Math.PI);
-            ctx.fill();
-            // Big laugh expression with open mouth
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius * 1.5, 0, Math.PI, false);
-            ctx.stroke();
-            // Teeth showing in the laugh
-            ctx.beginPath();
-            ctx.moveTo(-mouthRadius * 0.4, mouthY);
-            ctx.lineTo(-mouthRadius * 0.3, mouthY - 4);
-            ctx.moveTo(-mouthRadius * 0.2, mouthY);
-            ctx.lineTo(-mouthRadius * 0.1, mouthY - 5);
-            ctx.moveTo(mouthRadius * 0.2, mouthY);
-            ctx.lineTo(mouthRadius * 0.1, mouthY - 5);
-            ctx.moveTo(mouthRadius * 0.4, mouthY);
-            ctx.lineTo(mouthRadius * 0.3, mouthY - 4);
-            ctx.stroke();
-            break;
-        default: // Fallback to original expression
-            // Standard eyes
-            ctx.beginPath();
-            ctx.arc(-eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            ctx.beginPath();
-            ctx.arc(eyeX, eyeY, eyeRadius, 0, 2 * Math.PI);
-            ctx.fill();
-            // Standard smile
-            ctx.beginPath();
-            ctx.arc(0, mouthY, mouthRadius, 0, Math.PI, false);
-            ctx.stroke();
-            break;
+ * Draws the launch power as a ring around the fruit to launch
+ * Green at low power to red at full power, brighter while power is being set
+ * In hot-seat games the ring's track shows the color of the player whose turn it is
+ */
+function drawPowerMeter(fruitToLaunch) {
+    const radius = fruitToLaunch.radius + 8;
+    ctx.beginPath();
+    ctx.arc(fruitToLaunch.x, fruitToLaunch.y, radius, 0, Math.PI * 2);
+    ctx.strokeStyle = world.players > 1 ? PLAYER_COLORS[world.currentPlayer()] : 'rgba(0, 0, 0, 0.15)';
+    ctx.lineWidth = 6;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(fruitToLaunch.x, fruitToLaunch.y, radius, -Math.PI / 2, -Math.PI / 2 + controls.power * Math.PI * 2);
+    ctx.strokeStyle = `hsla(${Math.round(120 * (1 - controls.power))}, 80%, 45%, ${controls.active ? 1 : 0.5})`;
+    ctx.stroke();
+}
+/**
+ * Draws a predicted launch: its path, the first fruit hit and where it would stop
+ */
+function drawPrediction(predicted, fruitToLaunch) {
+    // Path of the launched fruit, including wall rebounds
+    ctx.beginPath();
+    predicted.path.forEach((point, index) => {
+        if (index === 0)
+            ctx.moveTo(point.x, point.y);
+        else
+            ctx.lineTo(point.x, point.y);
+    });
+    ctx.strokeStyle = '#999';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([10, 5]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    // Highlight the first fruit it would hit
+    if (predicted.hit) {
+        ctx.beginPath();
+        ctx.arc(predicted.hit.x, predicted.hit.y, predicted.hit.radius + 4, 0, Math.PI * 2);
+        ctx.strokeStyle = predicted.merges ? '#2E8B57' : '#D80E4B';
+        ctx.lineWidth = 3;
+        ctx.stroke();
     }
+    // Ghost of the launched fruit where it would come to rest
+    ctx.beginPath();
+    ctx.arc(predicted.rest.x, predicted.rest.y, fruitToLaunch.radius, 0, Math.PI * 2);
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.4)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.stroke();
+    ctx.setLineDash([]);
 }
 /**
  * Renders the current game state
  * Draws all fruits, aiming line, next fruit, and UI elements
+ * Fruits are drawn between their last two simulated poses (alpha from 0 to 1)
  */
-function draw() {
-    // Clear the canvas for the new frame
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    // Draw all shadows first (behind everything)
-    fruits.forEach((fruit) => {
-        // Draw shadow for depth effect
+function draw(alpha) {
+    // Clear the canvas for the new frame, then draw in world units
+    viewport.apply(ctx);
+    ctx.clearRect(0, 0, world.width, world.height);
+    const fruitToLaunch = world.fruitToLaunch;
+    updateSprites();
+    if (editor) {
+        drawEditor(editor);
+        return;
+    }
+    const poses = world.fruits.map((fruit) => interpolatePose(fruit, alpha));
+    // Big merges shake the whole table
+    const shake = effects.shakeOffset();
+    ctx.translate(shake.x, shake.y);
+    // Draw the pockets of a pool table under the fruits
+    world.pockets.forEach((pocket) => {
         ctx.beginPath();
-        ctx.arc(fruit.x + 7, fruit.y + 7, fruit.radius, 0, Math.PI * 2);
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        ctx.arc(pocket.x, pocket.y, pocket.radius, 0, Math.PI * 2);
+        ctx.fillStyle = '#222';
         ctx.fill();
-        ctx.closePath();
     });
-    // Draw all fruit bodies and faces
-    fruits.forEach((fruit) => {
-        // Draw main fruit body
-        ctx.beginPath();
-        ctx.arc(fruit.x, fruit.y, fruit.radius, 0, Math.PI * 2);
-        ctx.fillStyle = fruit.color;
-        ctx.fill();
-        ctx.closePath();
-        // Draw fruit face with rotation
-        ctx.save();
-        ctx.translate(fruit.x, fruit.y);
-        ctx.rotate(fruit.angle);
-        ctx.fillStyle = 'black';
-        ctx.strokeStyle = 'black';
-        ctx.lineWidth = Math.max(1, fruit.radius * 0.05);
-        // Draw different expressions based on fruit type
-        drawFruitExpression(ctx, fruit.radius, fruit.typeIndex);
-        ctx.restore();
+    // Draw the static obstacles of the level
+    drawObstacles(ctx, world.obstacles);
+    // Draw all shadows first (behind everything)
+    world.fruits.forEach((fruit, index) => {
+        const pose = poses[index];
+        sprites.drawShadow(ctx, fruit, pose.x, pose.y);
     });
-    // Draw aiming line (dotted line showing launch direction)
-    if (fruitToLaunch) {
-        const dx = mousePos.x - fruitToLaunch.x;
-        const dy = mousePos.y - fruitToLaunch.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        const maxLength = canvas.width * 0.25; // Quarter of the canvas width
-        let endX, endY;
-        if (distance > maxLength) {
-            // Limit the line length to quarter of the canvas width
-            const angle = Math.atan2(dy, dx);
-            endX = fruitToLaunch.x + Math.cos(angle) * maxLength;
-            endY = fruitToLaunch.y + Math.sin(angle) * maxLength;
+    // Draw all fruit bodies and faces, rotated with the fruit, growing in when just merged
+    world.fruits.forEach((fruit, index) => {
+        const pose = poses[index];
+        const scale = effects.scale(fruit);
+        if (scale !== 1) {
+            ctx.save();
+            ctx.translate(pose.x, pose.y);
+            ctx.scale(scale, scale);
+            sprites.drawFruit(ctx, fruit, 0, 0, pose.angle);
+            ctx.restore();
         }
         else {
-            endX = mousePos.x;
-            endY = mousePos.y;
+            sprites.drawFruit(ctx, fruit, pose.x, pose.y, pose.angle);
         }
+        if (fruit.frozen)
+            drawFrost(fruit, pose);
+    });
+    // Draw the predicted path of the launch when the difficulty allows it
+    const predicted = fruitToLaunch && difficulty.trajectoryPreview && !replayPlayer ? getPrediction() : null;
+    if (predicted) {
+        drawPrediction(predicted, fruitToLaunch);
+    }
+    // Draw aiming line (dotted line showing launch direction)
+    else if (fruitToLaunch) {
+        const length = world.width * 0.25; // Quarter of the table width
         ctx.beginPath();
         ctx.moveTo(fruitToLaunch.x, fruitToLaunch.y);
-        ctx.lineTo(endX, endY);
-        ctx.strokeStyle = '#999';
+        ctx.lineTo(fruitToLaunch.x + Math.cos(controls.angle) * length, fruitToLaunch.y + Math.sin(controls.angle) * length);
+        ctx.strokeStyle = world.players > 1 ? PLAYER_COLORS[world.currentPlayer()] : '#999';
         ctx.lineWidth = 3; // Thicker line
         ctx.setLineDash([10, 5]); // Dotted line pattern: 10px dash, 5px gap
         ctx.stroke();
         ctx.closePath();
         ctx.setLineDash([]); // Reset line dash for other drawings
     }
-    // Draw the fruit ready to be launched (at bottom of canvas)
+    // Draw the fruit ready to be launched (at bottom of canvas, no rotation)
     if (fruitToLaunch) {
-        // Draw shadow
-        ctx.beginPath();
-        ctx.arc(fruitToLaunch.x + 7, fruitToLaunch.y + 7, fruitToLaunch.radius, 0, Math.PI * 2);
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-        ctx.fill();
-        ctx.closePath();
-        // Draw main fruit body
-        ctx.beginPath();
-        ctx.arc(fruitToLaunch.x, fruitToLaunch.y, fruitToLaunch.radius, 0, Math.PI * 2);
-        ctx.fillStyle = fruitToLaunch.color;
-        ctx.fill();
-        ctx.closePath();
-        // Draw fruit face (no rotation for launch fruit)
-        ctx.save();
-        ctx.translate(fruitToLaunch.x, fruitToLaunch.y);
-        ctx.fillStyle = 'black';
-        ctx.strokeStyle = 'black';
-        ctx.lineWidth = Math.max(1, fruitToLaunch.radius * 0.05);
-        // Draw expression for launch fruit
-        drawFruitExpression(ctx, fruitToLaunch.radius, fruitToLaunch.typeIndex);
-        ctx.restore();
-    }
-    // Draw next fruit preview in UI panel
-    const nextFruitContainer = document.getElementById('next-fruit-container');
-    const nextFruitName = document.getElementById('next-fruit-name');
-    nextFruitContainer.innerHTML = ''; // Clear previous fruit
-    if (fruitInQueue) {
-        // Create a small canvas for the fruit preview
-        const fruitCanvas = document.createElement('canvas');
-        const fruitCtx = fruitCanvas.getContext('2d');
-        const dpr = window.devicePixelRatio || 1; // High DPI support
-        const radius = fruitInQueue.radius;
-        // Set canvas size with high DPI scaling
-        fruitCanvas.width = radius * 2 * dpr;
-        fruitCanvas.height = radius * 2 * dpr;
-        fruitCanvas.style.width = radius * 2 + 'px';
-        fruitCanvas.style.height = radius * 2 + 'px';
-        fruitCtx.scale(dpr, dpr);
-        // Draw fruit body
-        fruitCtx.beginPath();
-        fruitCtx.arc(radius, radius, radius, 0, Math.PI * 2);
-        fruitCtx.fillStyle = fruitInQueue.color;
-        fruitCtx.fill();
-        fruitCtx.closePath();
-        // Draw fruit face
-        fruitCtx.save();
-        fruitCtx.translate(radius, radius);
-        fruitCtx.fillStyle = 'black';
-        fruitCtx.strokeStyle = 'black';
-        fruitCtx.lineWidth = Math.max(1, radius * 0.05);
-        // Draw expression for UI fruit
-        drawFruitExpression(fruitCtx, radius, fruitInQueue.typeIndex);
-        fruitCtx.restore();
-        // Add to UI and update name
-        nextFruitContainer.appendChild(fruitCanvas);
-        nextFruitName.textContent = fruitInQueue.name;
+        sprites.drawShadow(ctx, fruitToLaunch, fruitToLaunch.x, fruitToLaunch.y);
+        sprites.drawFruit(ctx, fruitToLaunch, fruitToLaunch.x, fruitToLaunch.y);
+        if (!replayPlayer)
+            drawPowerMeter(fruitToLaunch);
     }
-    else {
-        nextFruitName.textContent = '';
+    // Merge bursts and score popups over the table
+    effects.draw(ctx);
+    // Warn while the table is over the fill limit, with the time left to free some room
+    const remainingDanger = world.remainingDanger();
+    if (remainingDanger !== null && !world.gameOver) {
+        drawDangerWarning(remainingDanger);
     }
     // Update and draw the fill percentage gauge
     drawFillGauge();
+    drawSpinPicker();
+}
+// Restart in the same mode, or go back to the start screen
+restartButton.addEventListener('click', () => init(world.mode));
+changeModeButton.addEventListener('click', showStartScreen);
+// Start screen: one button per game mode
+gameModes.forEach((mode) => {
+    const button = document.createElement('button');
+    button.textContent = mode.label;
+    button.title = mode.description;
+    button.addEventListener('click', () => init(mode));
+    const description = document.createElement('p');
+    description.className = 'detail';
+    description.textContent = mode.description;
+    modeButtons.appendChild(button);
+    modeButtons.appendChild(description);
+});
+// Switch to the daily challenge by reloading with the daily parameter
+dailyButton.addEventListener('click', () => {
+    window.location.search = '?daily';
+});
+// Difficulty selection, locked while playing a shared seed
+difficulties.forEach((option) => {
+    const element = document.createElement('option');
+    element.value = option.id;
+    element.textContent = option.label;
+    difficultySelect.appendChild(element);
+});
+difficultySelect.value = difficulty.id;
+difficultySelect.disabled = urlSeed !== null;
+difficultySelect.addEventListener('change', () => {
+    difficulty = getDifficulty(difficultySelect.value);
+    try {
+        localStorage.setItem(DIFFICULTY_KEY, difficulty.id);
+    }
+    catch (e) {
+        // Storage unavailable, the choice only lasts for this session
+    }
+});
+// Theme selection, applies from the next game
+themeSelect.addEventListener('change', () => {
+    const value = themeSelect.value;
+    loadTheme(value).then((theme) => {
+        selectTheme(theme);
+    }).catch((e) => {
+        alert(`Cannot load theme: ${e.message}`);
+        selectTheme(selectedTheme); // Back to the theme in use
+    });
+});
+// Level selection, applies from the next game
+levelSelect.addEventListener('change', () => {
+    const value = levelSelect.value;
+    loadLevel(value).then((level) => {
+        selectLevel(level);
+    }).catch((e) => {
+        alert(`Cannot load level: ${e.message}`);
+        selectLevel(selectedLevel); // Back to the level in use
+    });
+});
+// Load a level file from disk
+loadLevelInput.addEventListener('change', () => {
+    const file = loadLevelInput.files && loadLevelInput.files[0];
+    loadLevelInput.value = ''; // Allow loading the same file again
+    if (!file)
+        return;
+    file.text().then((text) => {
+        try {
+            selectLevel(parseLevel(text));
+        }
+        catch (e) {
+            alert(`Cannot load level: ${e.message}`);
+        }
+    });
+});
+// Level editor
+editLevelButton.addEventListener('click', startEditor);
+playLevelButton.addEventListener('click', playEditedLevel);
+editorToolSelect.addEventListener('change', () => {
+    if (editor)
+        editor.tool = editorToolSelect.value;
+});
+editorSurfaceSelect.addEventListener('change', () => {
+    if (editor)
+        editor.surface = editorSurfaceSelect.value;
+});
+exportLevelButton.addEventListener('click', () => {
+    if (!editor)
+        return;
+    const blob = new Blob([editor.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `suika-level-${editor.level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+});
+// Load a theme file from disk
+loadThemeInput.addEventListener('change', () => {
+    const file = loadThemeInput.files && loadThemeInput.files[0];
+    loadThemeInput.value = ''; // Allow loading the same file again
+    if (!file)
+        return;
+    file.text().then((text) => {
+        try {
+            selectTheme(parseTheme(text));
+        }
+        catch (e) {
+            alert(`Cannot load theme: ${e.message}`);
+        }
+    });
+});
+// Export the game being played, or the replay being watched
+exportReplayButton.addEventListener('click', () => {
+    downloadReplay(replayPlayer ? replayPlayer.replay : recorder.toReplay());
+});
+// Load a replay file and start watching it
+loadReplayInput.addEventListener('change', () => {
+    const file = loadReplayInput.files && loadReplayInput.files[0];
+    loadReplayInput.value = ''; // Allow loading the same file again
+    if (!file)
+        return;
+    file.text().then((text) => {
+        try {
+            startReplay(parseReplay(text));
+        }
+        catch (e) {
+            alert(`Cannot load replay: ${e.message}`);
+        }
+    });
+});
+// Replay playback controls
+replayPlayButton.addEventListener('click', () => {
+    if (!replayPlayer)
+        return;
+    if (replayPlayer.finished) {
+        replayPlayer.restart(); // Play again from the start
+        replayPaused = false;
+    }
+    else {
+        replayPaused = !replayPaused;
+    }
+    updateReplayControls();
+});
+replaySpeedSelect.addEventListener('change', () => {
+    replaySpeed = Number(replaySpeedSelect.value);
+});
+replaySeekInput.addEventListener('input', () => {
+    if (!replayPlayer)
+        return;
+    const player = replayPlayer;
+    sounds.silence(() => player.seek(Number(replaySeekInput.value))); // Skipped frames stay silent
+    effects.clear();
+    updateReplayControls();
+});
+replayExitButton.addEventListener('click', stopReplay);
+// Sound settings, kept for the next sessions
+muteCheckbox.checked = sounds.getSettings().muted;
+masterVolumeInput.value = sounds.getSettings().master.toString();
+categoryVolumeInputs.forEach((input) => {
+    input.value = sounds.getSettings().volumes[input.dataset.category].toString();
+});
+/**
+ * Applies and stores the sound settings shown in the HUD
+ */
+function updateAudioSettings() {
+    const settings = sounds.getSettings();
+    settings.muted = muteCheckbox.checked;
+    settings.master = Number(masterVolumeInput.value);
+    categoryVolumeInputs.forEach((input) => {
+        settings.volumes[input.dataset.category] = Number(input.value);
+    });
+    sounds.setSettings(settings);
+    try {
+        localStorage.setItem(AUDIO_KEY, JSON.stringify(settings));
+    }
+    catch (e) {
+        // Storage unavailable, the settings only last for this session
+    }
+}
+muteCheckbox.addEventListener('change', updateAudioSettings);
+masterVolumeInput.addEventListener('input', updateAudioSettings);
+categoryVolumeInputs.forEach((input) => input.addEventListener('input', updateAudioSettings));
+// Reduced motion turns the animations off, kept for the next sessions
+reducedMotionCheckbox.checked = !effects.enabled;
+reducedMotionCheckbox.addEventListener('change', () => {
+    effects.enabled = !reducedMotionCheckbox.checked;
+    try {
+        localStorage.setItem(REDUCED_MOTION_KEY, reducedMotionCheckbox.checked.toString());
+    }
+    catch (e) {
+        // Storage unavailable, the setting only lasts for this session
+    }
+});
+// Browsers only start audio from a user gesture
+window.addEventListener('pointerdown', () => sounds.unlock());
+window.addEventListener('keydown', () => sounds.unlock());
+// Online versus: join a room, or leave the match
+versusButton.addEventListener('click', () => {
+    if (versus) {
+        showStartScreen();
+    }
+    else {
+        joinVersus();
+    }
+});
+// Prepare a table to show behind the start screen, and start the game loop
+world.reset(urlSeed ? urlSeed.seed : undefined);
+showMode();
+// Keep the canvas fitted to its container and the window
+resizeCanvas();
+window.addEventListener('resize', resizeCanvas);
+new ResizeObserver(resizeCanvas).observe(canvasContainer);
+gameLoop.start();
+// Offer to continue the game saved before the page was left
+const savedGame = loadSavedGame();
+if (savedGame && !savedGame.world.gameOver) {
+    continueScoreEl.textContent = savedGame.world.score.toString();
+    continueScreen.style.display = 'block';
+    continueButton.addEventListener('click', () => {
+        continueScreen.style.display = 'none';
+        resumeGame(savedGame);
+    });
+    newGameButton.addEventListener('click', () => {
+        continueScreen.style.display = 'none';
+        clearSavedGame();
+        showStartScreen();
+    });
+}
+else {
+    showStartScreen();
 }
-// Set up restart button event listener
-restartButton.addEventListener('click', init);
-// Initialize and start the game
-init();
@@ -0,0 +1,115 @@
+import { isOneOf } from './json.js';
+export const SPECIAL_KINDS = ['rainbow', 'bomb', 'ice', 'shrink'];
+export const BOMB_RADIUS = 120; // Fruits touching this circle around a Bomb are removed (px)
+export const ICE_RADIUS = 150; // Fruits touching this circle around an Ice fruit are frozen (px)
+export const FREEZE_TIME = 4; // Time (s) frozen fruits stay in place
+/**
+ * Display name and base color of each special
+ */
+const SPECIAL_LOOKS = {
+    rainbow: { name: 'Rainbow', color: '#FF66CC' },
+    bomb: { name: 'Bomb', color: '#333333' },
+    ice: { name: 'Ice', color: '#9FE3FF' },
+    shrink: { name: 'Shrink', color: '#7E57C2' }
+};
+/**
+ * Fruit type of a special item, the size of the theme's second fruit
+ * Specials are outside the chain: they have rank -1 and are worth no points
+ */
+export function specialType(kind, theme) {
+    return {
+        rank: -1,
+        radius: theme.fruits[1].radius,
+        color: SPECIAL_LOOKS[kind].color,
+        name: SPECIAL_LOOKS[kind].name,
+        score: 0,
+        face: { eyes: { shape: 'dot', size: 1 }, mouth: { shape: 'line', size: 1 } },
+        special: kind
+    };
+}
+/**
+ * Whether a value names a special
+ */
+export function isSpecialKind(value) {
+    return isOneOf(value, SPECIAL_KINDS);
+}
+/**
+ * Draws a special item centered on the origin
+ * Each kind has its own look so it can't be mistaken for a fruit of any theme
+ */
+export function drawSpecial(ctx, radius, kind) {
+    ctx.lineWidth = Math.max(1, radius * 0.08);
+    switch (kind) {
+        case 'rainbow': {
+            // Colored slices around a white core
+            const colors = ['#E53935', '#FB8C00', '#FDD835', '#43A047', '#1E88E5', '#8E24AA'];
+            colors.forEach((color, index) => {
+                const start = (index / colors.length) * Math.PI * 2;
+                ctx.beginPath();
+                ctx.moveTo(0, 0);
+                ctx.arc(0, 0, radius, start, start + Math.PI * 2 / colors.length);
+                ctx.closePath();
+                ctx.fillStyle = color;
+                ctx.fill();
+            });
+            ctx.beginPath();
+            ctx.arc(0, 0, radius * 0.35, 0, Math.PI * 2);
+            ctx.fillStyle = 'white';
+            ctx.fill();
+            break;
+        }
+        case 'bomb':
+            // Black ball with a shine, a fuse and a spark
+            ctx.beginPath();
+            ctx.arc(0, radius * 0.1, radius * 0.9, 0, Math.PI * 2);
+            ctx.fillStyle = SPECIAL_LOOKS.bomb.color;
+            ctx.fill();
+            ctx.beginPath();
+            ctx.arc(-radius * 0.3, -radius * 0.15, radius * 0.2, 0, Math.PI * 2);
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+            ctx.fill();
+            ctx.beginPath();
+            ctx.moveTo(radius * 0.35, -radius * 0.65);
+            ctx.quadraticCurveTo(radius * 0.6, -radius * 1.05, radius * 0.85, -radius * 0.8);
+            ctx.strokeStyle = '#8D6E63';
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.arc(radius * 0.85, -radius * 0.8, radius * 0.15, 0, Math.PI * 2);
+            ctx.fillStyle = '#FFB300';
+            ctx.fill();
+            break;
+        case 'ice':
+            // Pale disc with a six-armed snowflake
+            ctx.beginPath();
+            ctx.arc(0, 0, radius, 0, Math.PI * 2);
+            ctx.fillStyle = SPECIAL_LOOKS.ice.color;
+            ctx.fill();
+            ctx.strokeStyle = 'white';
+            ctx.beginPath();
+            for (let i = 0; i < 6; i++) {
+                const angle = (i / 6) * Math.PI * 2;
+                ctx.moveTo(0, 0);
+                ctx.lineTo(Math.cos(angle) * radius * 0.75, Math.sin(angle) * radius * 0.75);
+            }
+            ctx.stroke();
+            break;
+        case 'shrink':
+            // Purple disc with an arrow pointing down
+            ctx.beginPath();
+            ctx.arc(0, 0, radius, 0, Math.PI * 2);
+            ctx.fillStyle = SPECIAL_LOOKS.shrink.color;
+            ctx.fill();
+            ctx.beginPath();
+            ctx.moveTo(-radius * 0.2, -radius * 0.55);
+            ctx.lineTo(radius * 0.2, -radius * 0.55);
+            ctx.lineTo(radius * 0.2, 0);
+            ctx.lineTo(radius * 0.5, 0);
+            ctx.lineTo(0, radius * 0.6);
+            ctx.lineTo(-radius * 0.5, 0);
+            ctx.lineTo(-radius * 0.2, 0);
+            ctx.closePath();
+            ctx.fillStyle = 'white';
+            ctx.fill();
+            break;
+    }
+}
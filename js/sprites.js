@@ -0,0 +1,104 @@
+import { drawFace } from './faces.js';
+import { SPECIAL_KINDS, drawSpecial, specialType } from './specials.js';
+// Offset of the drop shadow under each fruit (pixels)
+const SHADOW_OFFSET = 7;
+// Margin around a sprite so antialiased edges are not clipped (pixels)
+const SPRITE_PADDING = 2;
+/**
+ * Offscreen cache of pre-rendered fruits
+ * Each fruit type of the theme is drawn once, then copied with drawImage every frame
+ * Sprites are rebuilt when the theme or the pixel ratio changes
+ */
+export class FruitSpriteCache {
+    constructor() {
+        this.sprites = [];
+        this.specials = {};
+        this.theme = null;
+        this.scale = 0;
+    }
+    /**
+     * Makes sure the sprites match the theme and pixel ratio
+     * Returns true when they had to be rebuilt
+     */
+    update(theme, scale) {
+        if (theme === this.theme && scale === this.scale)
+            return false;
+        this.theme = theme;
+        this.scale = scale;
+        this.sprites = theme.fruits.map((fruit) => this.render(fruit));
+        SPECIAL_KINDS.forEach((kind) => {
+            this.specials[kind] = this.render(specialType(kind, theme));
+        });
+        return true;
+    }
+    /**
+     * Draws the shadow of a fruit centered on (x, y), offset down and right
+     */
+    drawShadow(ctx, fruit, x, y) {
+        const sprite = this.sprite(fruit);
+        const half = sprite.size / 2;
+        ctx.drawImage(sprite.shadow, x + SHADOW_OFFSET - half, y + SHADOW_OFFSET - half, sprite.size, sprite.size);
+    }
+    /**
+     * Draws a fruit centered on (x, y), rotated by angle
+     */
+    drawFruit(ctx, fruit, x, y, angle = 0) {
+        const sprite = this.sprite(fruit);
+        const half = sprite.size / 2;
+        if (angle === 0) {
+            ctx.drawImage(sprite.body, x - half, y - half, sprite.size, sprite.size);
+            return;
+        }
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(angle);
+        ctx.drawImage(sprite.body, -half, -half, sprite.size, sprite.size);
+        ctx.restore();
+    }
+    /**
+     * Sprite of a fruit type, special items have their own
+     */
+    sprite(fruit) {
+        return fruit.special ? this.specials[fruit.special] : this.sprites[fruit.rank];
+    }
+    /**
+     * Renders the sprites of one fruit type
+     */
+    render(fruit) {
+        const size = (fruit.radius + SPRITE_PADDING) * 2;
+        const center = size / 2;
+        const shadow = this.createCanvas(size);
+        const shadowCtx = shadow.getContext('2d');
+        shadowCtx.beginPath();
+        shadowCtx.arc(center, center, fruit.radius, 0, Math.PI * 2);
+        shadowCtx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        shadowCtx.fill();
+        const body = this.createCanvas(size);
+        const bodyCtx = body.getContext('2d');
+        if (fruit.special) {
+            bodyCtx.translate(center, center);
+            drawSpecial(bodyCtx, fruit.radius, fruit.special);
+            return { body, shadow, size };
+        }
+        bodyCtx.beginPath();
+        bodyCtx.arc(center, center, fruit.radius, 0, Math.PI * 2);
+        bodyCtx.fillStyle = fruit.color;
+        bodyCtx.fill();
+        bodyCtx.translate(center, center);
+        bodyCtx.fillStyle = 'black';
+        bodyCtx.strokeStyle = 'black';
+        bodyCtx.lineWidth = Math.max(1, fruit.radius * 0.05);
+        drawFace(bodyCtx, fruit.radius, fruit.face);
+        return { body, shadow, size };
+    }
+    /**
+     * Creates an offscreen canvas of the given size, scaled to the pixel ratio
+     */
+    createCanvas(size) {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(size * this.scale);
+        canvas.height = Math.ceil(size * this.scale);
+        canvas.getContext('2d').scale(this.scale, this.scale);
+        return canvas;
+    }
+}
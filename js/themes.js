@@ -0,0 +1,205 @@
+import { isArray, isInteger, isNumber, isObject, isOneOf } from './json.js';
+const EYE_SHAPES = ['dot', 'squint', 'wink'];
+const MOUTH_SHAPES = ['o', 'smile', 'line'];
+const FACE_EXTRAS = ['mustache', 'spikes', 'teeth', 'dimples', 'blush'];
+/**
+ * Validates the content of a theme file and builds the theme
+ * The fruits of a theme file have no rank, it is given by their position in the chain
+ * Throws an Error describing the first problem found
+ */
+export function validateTheme(data) {
+    if (!isObject(data)) {
+        throw new Error('Theme must be an object');
+    }
+    const id = data.id;
+    if (typeof id !== 'string' || id === '') {
+        throw new Error('Theme field "id" must be a non-empty string');
+    }
+    const fail = (message) => {
+        throw new Error(`Theme "${id}": ${message}`);
+    };
+    const name = data.name;
+    if (typeof name !== 'string' || name === '') {
+        return fail('field "name" must be a non-empty string');
+    }
+    const chainLength = data.chainLength;
+    if (!isInteger(chainLength, 2)) {
+        return fail('field "chainLength" must be an integer of at least 2');
+    }
+    const fruitList = data.fruits;
+    if (!isArray(fruitList) || fruitList.length !== chainLength) {
+        return fail(`field "fruits" must list exactly ${chainLength} fruits (chainLength)`);
+    }
+    const rankList = data.spawnRanks;
+    if (!isArray(rankList) || rankList.length === 0) {
+        return fail('field "spawnRanks" must be a non-empty array');
+    }
+    const spawnRanks = rankList.map((rank, index) => {
+        if (!isInteger(rank, 0) || rank >= chainLength - 1) {
+            return fail(`spawnRanks[${index}] must be a rank between 0 and ${chainLength - 2}`);
+        }
+        if (rankList.indexOf(rank) !== index) {
+            return fail(`spawnRanks[${index}] repeats rank ${rank}`);
+        }
+        return rank;
+    });
+    const fruits = [];
+    fruitList.forEach((fruit, rank) => {
+        const where = `fruits[${rank}]`;
+        if (!isObject(fruit)) {
+            return fail(`${where} must be an object`);
+        }
+        const { name: fruitName, radius, color, score } = fruit;
+        if (typeof fruitName !== 'string' || fruitName === '') {
+            return fail(`${where}.name must be a non-empty string`);
+        }
+        if (!isPositive(radius)) {
+            return fail(`${where}.radius must be a positive number`);
+        }
+        if (rank > 0 && radius <= fruits[rank - 1].radius) {
+            return fail(`${where}.radius must be larger than the radius of the previous fruit`);
+        }
+        if (typeof color !== 'string' || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+            return fail(`${where}.color must be a hex color like "#FF5500"`);
+        }
+        if (!isNumber(score) || score < 0) {
+            return fail(`${where}.score must be a number of at least 0`);
+        }
+        fruits.push({
+            rank,
+            radius,
+            color,
+            name: fruitName,
+            score,
+            face: validateFace(fruit.face, `${where}.face`, fail)
+        });
+    });
+    return { id, name, chainLength, spawnRanks, fruits };
+}
+/**
+ * Validates the face description of a theme fruit
+ */
+function validateFace(face, where, fail) {
+    if (!isObject(face)) {
+        return fail(`${where} must be an object`);
+    }
+    const { eyes, mouth, extras } = face;
+    if (!isObject(eyes) || !isOneOf(eyes.shape, EYE_SHAPES)) {
+        return fail(`${where}.eyes.shape must be one of ${EYE_SHAPES.join(', ')}`);
+    }
+    if (!isPositive(eyes.size)) {
+        return fail(`${where}.eyes.size must be a positive number`);
+    }
+    if (!isObject(mouth) || !isOneOf(mouth.shape, MOUTH_SHAPES)) {
+        return fail(`${where}.mouth.shape must be one of ${MOUTH_SHAPES.join(', ')}`);
+    }
+    if (!isPositive(mouth.size)) {
+        return fail(`${where}.mouth.size must be a positive number`);
+    }
+    const [inset, offset] = ['inset', 'offset'].map((key) => {
+        const value = mouth[key];
+        return value === undefined || isNumber(value) ? value : fail(`${where}.mouth.${key} must be a number`);
+    });
+    if (extras !== undefined && !isArray(extras)) {
+        return fail(`${where}.extras must be an array`);
+    }
+    return {
+        eyes: { shape: eyes.shape, size: eyes.size },
+        mouth: { shape: mouth.shape, size: mouth.size, inset, offset },
+        extras: extras && extras.map((extra, index) => isOneOf(extra, FACE_EXTRAS)
+            ? extra
+            : fail(`${where}.extras[${index}] must be one of ${FACE_EXTRAS.join(', ')}`))
+    };
+}
+/**
+ * Whether a value is a finite number above 0
+ */
+function isPositive(value) {
+    return isNumber(value) && value > 0;
+}
+/**
+ * Parses and validates a theme file
+ * Throws an Error describing the first problem found
+ */
+export function parseTheme(text) {
+    let data;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (e) {
+        throw new Error('Theme file is not valid JSON');
+    }
+    return validateTheme(data);
+}
+/**
+ * Built-in theme: the original fruits, from Cherry to Watermelon
+ * Written in the theme file format, so it also serves as an example
+ */
+export const DEFAULT_THEME = validateTheme({
+    id: 'fruits',
+    name: 'Fruits',
+    chainLength: 11,
+    spawnRanks: [0, 1, 2, 3, 4],
+    fruits: [
+        {
+            name: 'Cherry', radius: 15, color: '#8A2BE2', score: 1,
+            face: { eyes: { shape: 'dot', size: 0.8 }, mouth: { shape: 'o', size: 0.3 } }
+        },
+        {
+            name: 'Strawberry', radius: 20, color: '#B11D97', score: 2,
+            face: { eyes: { shape: 'dot', size: 1 }, mouth: { shape: 'smile', size: 1 } }
+        },
+        {
+            name: 'Grape', radius: 28, color: '#D80E4B', score: 3,
+            face: { eyes: { shape: 'squint', size: 0.7 }, mouth: { shape: 'smile', size: 0.4, inset: 0.5 } }
+        },
+        {
+            name: 'Dekopon', radius: 35, color: '#FF0000', score: 4,
+            face: { eyes: { shape: 'dot', size: 0.9 }, mouth: { shape: 'line', size: 0.6 } }
+        },
+        {
+            name: 'Persimmon', radius: 45, color: '#FF5500', score: 5,
+            face: {
+                eyes: { shape: 'dot', size: 1.1 },
+                mouth: { shape: 'smile', size: 0.3, inset: 0.2, offset: 3 },
+                extras: ['mustache']
+            }
+        },
+        {
+            name: 'Apple', radius: 55, color: '#FFAA00', score: 6,
+            face: { eyes: { shape: 'dot', size: 1 }, mouth: { shape: 'smile', size: 0.8, inset: 0.3 } }
+        },
+        {
+            name: 'Pear', radius: 65, color: '#FFFF00', score: 7,
+            face: { eyes: { shape: 'wink', size: 1.2 }, mouth: { shape: 'smile', size: 1.4, inset: 0.05 } }
+        },
+        {
+            name: 'Peach', radius: 75, color: '#C8E208', score: 8,
+            face: { eyes: { shape: 'dot', size: 0.9 }, mouth: { shape: 'o', size: 0.4 } }
+        },
+        {
+            name: 'Pineapple', radius: 85, color: '#90C511', score: 9,
+            face: {
+                eyes: { shape: 'dot', size: 0.8 },
+                mouth: { shape: 'smile', size: 1, inset: 0.2 },
+                extras: ['spikes']
+            }
+        },
+        {
+            name: 'Melon', radius: 100, color: '#59A819', score: 10,
+            face: {
+                eyes: { shape: 'dot', size: 1.3 },
+                mouth: { shape: 'smile', size: 1.2, inset: 0.1 },
+                extras: ['dimples']
+            }
+        },
+        {
+            name: 'Watermelon', radius: 120, color: '#228B22', score: 11,
+            face: {
+                eyes: { shape: 'dot', size: 1.1 },
+                mouth: { shape: 'smile', size: 1.5 },
+                extras: ['teeth']
+            }
+        }
+    ]
+});
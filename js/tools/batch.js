@@ -0,0 +1,131 @@
+import { playGame } from '../autoplay.js';
+import { strategies } from '../bots.js';
+import { gameModes, getGameMode } from '../modes.js';
+import { FIXED_TIMESTEP } from '../world.js';
+/**
+ * Reads `--name value` pairs from the command line
+ */
+function parseOptions(args) {
+    const options = {
+        bot: 'greedy', games: 1000, seed: 1, mode: gameModes[0].id, specials: 0,
+        maxMinutes: 30, maxShots: 300, shotFrames: 10, format: 'json'
+    };
+    for (let i = 0; i < args.length; i += 2) {
+        const value = args[i + 1];
+        if (value === undefined)
+            throw new Error(`Missing value for ${args[i]}`);
+        switch (args[i]) {
+            case '--bot':
+                options.bot = value;
+                break;
+            case '--games':
+                options.games = parseCount(args[i], value);
+                break;
+            case '--seed':
+                options.seed = parseCount(args[i], value);
+                break;
+            case '--mode':
+                options.mode = value;
+                break;
+            case '--specials':
+                options.specials = Number(value);
+                if (!(options.specials >= 0 && options.specials <= 1))
+                    throw new Error('--specials must be a number from 0 to 1');
+                break;
+            case '--max-minutes':
+                options.maxMinutes = parseCount(args[i], value);
+                break;
+            case '--max-shots':
+                options.maxShots = parseCount(args[i], value);
+                break;
+            case '--shot-frames':
+                options.shotFrames = parseCount(args[i], value);
+                break;
+            case '--format':
+                if (value !== 'json' && value !== 'csv')
+                    throw new Error('--format must be json or csv');
+                options.format = value;
+                break;
+            default:
+                throw new Error(`Unknown option ${args[i]}`);
+        }
+    }
+    if (!strategies[options.bot]) {
+        throw new Error(`Unknown bot ${options.bot}, expected one of ${Object.keys(strategies).join(', ')}`);
+    }
+    if (getGameMode(options.mode).id !== options.mode) {
+        throw new Error(`Unknown mode ${options.mode}, expected one of ${gameModes.map((mode) => mode.id).join(', ')}`);
+    }
+    return options;
+}
+/**
+ * Parses a non-negative integer option
+ */
+function parseCount(name, value) {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0)
+        throw new Error(`${name} must be a non-negative integer`);
+    return count;
+}
+/**
+ * Summarizes values with nearest-rank percentiles
+ */
+function distribution(values) {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const percentile = (p) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+    return {
+        min: sorted[0],
+        p10: percentile(0.1),
+        median: percentile(0.5),
+        p90: percentile(0.9),
+        max: sorted[sorted.length - 1],
+        mean: values.reduce((sum, value) => sum + value, 0) / values.length
+    };
+}
+/**
+ * Counts games by the highest rank they reached
+ */
+function histogram(values) {
+    const counts = {};
+    values.forEach((value) => {
+        counts[value] = (counts[value] || 0) + 1;
+    });
+    return counts;
+}
+const options = parseOptions(process.argv.slice(2));
+const mode = getGameMode(options.mode);
+const maxFrames = Math.round(options.maxMinutes * 60 / FIXED_TIMESTEP);
+const results = [];
+for (let i = 0; i < options.games; i++) {
+    const seed = options.seed + i;
+    const result = playGame(strategies[options.bot](seed), {
+        seed,
+        mode,
+        specialRate: options.specials,
+        maxFrames,
+        maxShots: options.maxShots || undefined,
+        shotFrames: options.shotFrames
+    });
+    results.push(result);
+    console.error(`[${i + 1}/${options.games}] seed ${seed}: score ${result.score}, ${result.shots} shots, max rank ${result.maxRank}`);
+}
+if (options.format === 'csv') {
+    console.log('seed,score,shots,maxRank,frames,endReason');
+    results.forEach((result) => {
+        console.log([result.seed, result.score, result.shots, result.maxRank, result.frames, result.endReason || ''].join(','));
+    });
+}
+else {
+    console.log(JSON.stringify({
+        bot: options.bot,
+        mode: mode.id,
+        specials: options.specials,
+        maxShots: options.maxShots,
+        shotFrames: options.shotFrames,
+        games: results.length,
+        score: results.length > 0 ? distribution(results.map((result) => result.score)) : null,
+        shots: results.length > 0 ? distribution(results.map((result) => result.shots)) : null,
+        maxRank: histogram(results.map((result) => result.maxRank)),
+        results
+    }, null, 2));
+}
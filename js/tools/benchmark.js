@@ -0,0 +1,96 @@
+import { Mulberry32 } from '../random.js';
+import { SpatialHash } from '../spatial-hash.js';
+import { SuikaWorld } from '../world.js';
+import { DEFAULT_THEME } from '../themes.js';
+/**
+ * Collision benchmark
+ * Builds a crowded table of several hundred small fruits and compares the
+ * brute-force pair scan with the spatial hash broad phase
+ *
+ * Usage: node js/tools/benchmark.js
+ */
+const WIDTH = 800;
+const HEIGHT = 600;
+const FRUIT_COUNT = 400;
+const ITERATIONS = 200;
+/**
+ * Builds the benchmark scene: cherries and strawberries with random velocities
+ */
+function createScene(seed) {
+    const random = new Mulberry32(seed);
+    const fruits = [];
+    for (let i = 0; i < FRUIT_COUNT; i++) {
+        const typeIndex = Math.floor(random.next() * 2);
+        const type = DEFAULT_THEME.fruits[typeIndex];
+        fruits.push(Object.assign(Object.assign({}, type), { typeIndex, x: type.radius + random.next() * (WIDTH - 2 * type.radius), y: type.radius + random.next() * (HEIGHT - 2 * type.radius), vx: (random.next() - 0.5) * 600, vy: (random.next() - 0.5) * 600, angle: 0, spin: 0, rollX: 0, rollY: 0, sleeping: false, restTime: 0, shot: -1 }));
+    }
+    return fruits;
+}
+/**
+ * Counts touching pairs by testing every pair
+ */
+function countPairsBruteForce(fruits) {
+    let pairs = 0;
+    for (let i = 0; i < fruits.length; i++) {
+        for (let j = i + 1; j < fruits.length; j++) {
+            const dx = fruits[j].x - fruits[i].x;
+            const dy = fruits[j].y - fruits[i].y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            if (distance < fruits[i].radius + fruits[j].radius)
+                pairs++;
+        }
+    }
+    return pairs;
+}
+/**
+ * Counts touching pairs using the spatial hash
+ */
+function countPairsSpatialHash(fruits, grid) {
+    let pairs = 0;
+    const candidates = [];
+    grid.build(fruits);
+    for (let i = 0; i < fruits.length; i++) {
+        grid.query(fruits[i].x, fruits[i].y, fruits[i].radius, candidates);
+        for (let k = 0; k < candidates.length; k++) {
+            const j = candidates[k];
+            if (j <= i)
+                continue;
+            const dx = fruits[j].x - fruits[i].x;
+            const dy = fruits[j].y - fruits[i].y;
+            const minDistance = fruits[i].radius + fruits[j].radius;
+            if (dx * dx + dy * dy < minDistance * minDistance)
+                pairs++;
+        }
+    }
+    return pairs;
+}
+/**
+ * Runs a function repeatedly and returns the average time per run in milliseconds
+ */
+function time(run) {
+    const start = performance.now();
+    for (let i = 0; i < ITERATIONS; i++)
+        run();
+    return (performance.now() - start) / ITERATIONS;
+}
+const scene = createScene(1);
+const grid = new SpatialHash(WIDTH, HEIGHT);
+const bruteForcePairs = countPairsBruteForce(scene);
+const hashPairs = countPairsSpatialHash(scene, grid);
+if (bruteForcePairs !== hashPairs) {
+    throw new Error(`Broad phase missed pairs: ${hashPairs} instead of ${bruteForcePairs}`);
+}
+// Warm up both paths so the JIT doesn't favour the second one
+time(() => countPairsBruteForce(scene));
+time(() => countPairsSpatialHash(scene, grid));
+const bruteForceMs = time(() => countPairsBruteForce(scene));
+const hashMs = time(() => countPairsSpatialHash(scene, grid));
+// Full simulation steps on the same crowded table
+const world = new SuikaWorld(WIDTH, HEIGHT, { seed: 1 });
+world.reset(1);
+world.fruits = createScene(1);
+const stepMs = time(() => world.step());
+console.log(`${FRUIT_COUNT} fruits, ${bruteForcePairs} touching pairs`);
+console.log(`brute-force pair scan: ${bruteForceMs.toFixed(3)} ms`);
+console.log(`spatial hash pair scan: ${hashMs.toFixed(3)} ms (${(bruteForceMs / hashMs).toFixed(1)}x faster)`);
+console.log(`world step: ${stepMs.toFixed(3)} ms/frame, ${world.fruits.length} fruits left after ${ITERATIONS} frames`);
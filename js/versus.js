@@ -0,0 +1,134 @@
+import { Mulberry32 } from './random.js';
+import { FIXED_TIMESTEP } from './world.js';
+import { gameModes } from './modes.js';
+import { DEFAULT_THEME } from './themes.js';
+// Smallest merged rank that sends garbage, each rank above it sends one more cherry
+const GARBAGE_MIN_RANK = 5;
+// Delay between the merge and the garbage landing on the other table (seconds)
+const GARBAGE_DELAY = 1;
+// Speed (px/s) garbage enters the table at, from the top rail
+const GARBAGE_SPEED = 400;
+/**
+ * Two-player versus match, one table per player, played on the same seed
+ * Large merges send garbage cherries onto the other table, the first table to fill up loses
+ * Fully deterministic: two clients stepping the same match with the same launches stay identical
+ */
+export class VersusMatch {
+    constructor(seed, tables) {
+        this.seed = seed;
+        this.tables = tables;
+        this.frame = 0;
+        this.result = null; // Set once the match is over
+        this.garbage = [[], []];
+        this.listeners = {};
+        this.random = new Mulberry32(seed ^ 0x5EED);
+        this.unsubscribe = tables.map((table, player) => {
+            // Both clients must play the exact same rules, whatever they picked for solo games
+            table.theme = DEFAULT_THEME;
+            table.mode = gameModes[0];
+            table.endOfChain = 'keep';
+            table.pockets = [];
+            table.level = null;
+            table.players = 1;
+            table.specialRate = 0;
+            table.reset(seed);
+            return table.on('merge', (merge) => this.sendGarbage(1 - player, merge.rank));
+        });
+    }
+    /**
+     * Stops listening to the tables, so they can be reused for other games
+     */
+    dispose() {
+        this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    }
+    on(type, listener) {
+        const list = (this.listeners[type] || (this.listeners[type] = []));
+        list.push(listener);
+        return () => {
+            const index = list.indexOf(listener);
+            if (index >= 0)
+                list.splice(index, 1);
+        };
+    }
+    /**
+     * Advances both tables by one step, dropping the garbage due on this frame
+     */
+    step() {
+        if (this.result)
+            return;
+        this.frame++;
+        this.tables.forEach((table, player) => {
+            this.dropGarbage(table, player);
+            table.step();
+        });
+        // The first table to end its game loses, a tie goes to the higher score
+        const ended = this.tables.map((table) => table.gameOver);
+        if (ended[0] || ended[1]) {
+            let winner = ended[0] ? 1 : 0;
+            if (ended[0] && ended[1]) {
+                const [score0, score1] = this.tables.map((table) => table.score);
+                winner = score0 === score1 ? null : score0 > score1 ? 0 : 1;
+            }
+            this.result = { winner, frame: this.frame };
+            this.emit('end', this.result);
+        }
+    }
+    /**
+     * Hash of the state of both tables, to detect clients drifting apart
+     * Positions are rounded so only real divergence changes it
+     */
+    hash() {
+        let hash = 0x811C9DC5; // FNV-1a
+        const mix = (value) => {
+            hash ^= value | 0;
+            hash = Math.imul(hash, 0x01000193);
+        };
+        mix(this.frame);
+        this.tables.forEach((table) => {
+            mix(table.score);
+            mix(table.fruits.length);
+            table.fruits.forEach((fruit) => {
+                mix(fruit.typeIndex);
+                mix(Math.round(fruit.x * 100));
+                mix(Math.round(fruit.y * 100));
+            });
+        });
+        return hash >>> 0;
+    }
+    /**
+     * Queues the garbage a merge sends to the other table
+     */
+    sendGarbage(to, rank) {
+        if (rank < GARBAGE_MIN_RANK || this.result)
+            return;
+        const event = {
+            to,
+            count: rank - GARBAGE_MIN_RANK + 1,
+            dropFrame: this.frame + Math.round(GARBAGE_DELAY / FIXED_TIMESTEP)
+        };
+        this.garbage[to].push({ count: event.count, dropFrame: event.dropFrame });
+        this.emit('garbage', event);
+    }
+    /**
+     * Drops the cherries due on this frame in from the top rail, spread across the table
+     */
+    dropGarbage(table, player) {
+        const due = this.garbage[player].filter((garbage) => garbage.dropFrame <= this.frame);
+        if (due.length === 0)
+            return;
+        this.garbage[player] = this.garbage[player].filter((garbage) => garbage.dropFrame > this.frame);
+        const cherry = table.theme.fruits[0];
+        due.forEach((garbage) => {
+            for (let i = 0; i < garbage.count; i++) {
+                const x = cherry.radius + this.random.next() * (table.width - 2 * cherry.radius);
+                table.dropFruit(0, x, cherry.radius, 0, GARBAGE_SPEED);
+            }
+        });
+    }
+    emit(type, payload) {
+        const list = this.listeners[type];
+        if (!list)
+            return;
+        list.slice().forEach((listener) => listener(payload));
+    }
+}
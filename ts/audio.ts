@@ -0,0 +1,271 @@
+declare global {
+    interface Window {
+        webkitAudioContext?: typeof AudioContext;   // Prefixed Web Audio of older Safari
+    }
+}
+
+/**
+ * Groups of sounds, each with its own volume
+ */
+export type SoundCategory = 'launches' | 'impacts' | 'merges' | 'warnings';
+
+export const SOUND_CATEGORIES: SoundCategory[] = ['launches', 'impacts', 'merges', 'warnings'];
+
+/**
+ * Sound settings, kept between sessions
+ */
+export interface AudioSettings {
+    muted: boolean;
+    master: number;                                     // Master volume in [0, 1]
+    volumes: { [category in SoundCategory]: number };  // Volume of each category in [0, 1]
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    muted: false,
+    master: 0.8,
+    volumes: { launches: 1, impacts: 0.7, merges: 1, warnings: 1 }
+};
+
+// The same sound plays at most MAX_REPEATS times within SOUND_WINDOW seconds,
+// a single step of the collision loop can report dozens of impacts
+const MAX_REPEATS = 3;
+const SOUND_WINDOW = 0.05;
+
+const MIN_IMPACT_SPEED = 40;        // Impacts slower than this (px/s) make no sound
+const LOUD_IMPACT_SPEED = 1200;     // Impact speed (px/s) played at full volume
+
+// Pitch of a merge into the second fruit of the chain, each rank down a step of the pentatonic scale
+const MERGE_FREQUENCY = 880;
+const PENTATONIC_STEPS = [0, 3, 5, 7, 10];     // Semitones below the octave's top note
+
+/**
+ * Parses stored sound settings
+ * Missing or malformed values fall back to the defaults
+ */
+export function parseAudioSettings(text: string): AudioSettings {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        data = null;
+    }
+    const stored: { [key: string]: unknown } = typeof data === 'object' && data !== null ? { ...data } : {};
+    const volume = (value: unknown, fallback: number) =>
+        typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+    const settings: AudioSettings = {
+        muted: typeof stored.muted === 'boolean' ? stored.muted : DEFAULT_AUDIO_SETTINGS.muted,
+        master: volume(stored.master, DEFAULT_AUDIO_SETTINGS.master),
+        volumes: { ...DEFAULT_AUDIO_SETTINGS.volumes }
+    };
+    const volumes: unknown = stored.volumes;
+    if (typeof volumes === 'object' && volumes !== null) {
+        const levels: { [category: string]: unknown } = { ...volumes };
+        SOUND_CATEGORIES.forEach((category: SoundCategory) => {
+            settings.volumes[category] = volume(levels[category], settings.volumes[category]);
+        });
+    }
+    return settings;
+}
+
+/**
+ * Game sounds, synthesized with Web Audio (no sound files)
+ * Every sound goes through its category's gain, then the master gain.
+ * Browsers only start audio from a user gesture: nothing plays until unlock() is called from one
+ */
+export class SoundEngine {
+    private context: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private outputs: { [category in SoundCategory]?: GainNode } = {};
+    private noiseBuffer: AudioBuffer | null = null;
+    private recent: { [sound: string]: { time: number, count: number } } = {};  // Latest plays of each sound
+    private quiet: boolean = false;                                             // Set while sounds are skipped
+
+    constructor(private settings: AudioSettings) {}
+
+    /**
+     * Current settings
+     */
+    getSettings(): AudioSettings {
+        return { ...this.settings, volumes: { ...this.settings.volumes } };
+    }
+
+    /**
+     * Changes the volumes and mute state, applied right away
+     */
+    setSettings(settings: AudioSettings): void {
+        this.settings = { ...settings, volumes: { ...settings.volumes } };
+        this.applyVolumes();
+    }
+
+    /**
+     * Starts audio output, to be called from a user gesture (pointer press or key)
+     */
+    unlock(): void {
+        if (!this.context) {
+            const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+            if (!AudioContextClass) return; // No Web Audio, the game stays silent
+            const context: AudioContext = new AudioContextClass();
+            this.context = context;
+            this.master = context.createGain();
+            this.master.connect(context.destination);
+            SOUND_CATEGORIES.forEach((category: SoundCategory) => {
+                const output = context.createGain();
+                output.connect(this.master as GainNode);
+                this.outputs[category] = output;
+            });
+            this.applyVolumes();
+        }
+        if (this.context.state === 'suspended') this.context.resume();
+    }
+
+    /**
+     * Runs an action without playing the sounds it triggers, such as seeking through a replay
+     */
+    silence(action: () => void): void {
+        this.quiet = true;
+        try {
+            action();
+        } finally {
+            this.quiet = false;
+        }
+    }
+
+    /**
+     * Launch: a thump and a swish, louder with power in [0, 1]
+     */
+    launch(power: number): void {
+        const sound = this.start('launch', 'launches');
+        if (!sound) return;
+        const volume = 0.3 + 0.7 * Math.max(0, Math.min(power, 1));
+        this.tone(sound.output, sound.time, 'sine', 180, 60, 0.15, volume);
+        this.noise(sound.output, sound.time, 0.12, volume * 0.4, 1500);
+    }
+
+    /**
+     * Impact between two fruits or against a rail (lower), louder with the closing speed (px/s)
+     */
+    impact(speed: number, wall: boolean): void {
+        if (speed < MIN_IMPACT_SPEED) return;
+        const sound = this.start(wall ? 'rail' : 'impact', 'impacts');
+        if (!sound) return;
+        const volume = Math.min(speed / LOUD_IMPACT_SPEED, 1);
+        if (wall) {
+            this.tone(sound.output, sound.time, 'sine', 160, 110, 0.1, volume);
+        } else {
+            this.tone(sound.output, sound.time, 'triangle', 520, 420, 0.07, volume * 0.8);
+        }
+    }
+
+    /**
+     * Merge: a pop, lower for larger fruits
+     */
+    merge(rank: number): void {
+        const sound = this.start('merge', 'merges');
+        if (!sound) return;
+        const step = Math.max(0, rank - 1);
+        const semitones = Math.floor(step / PENTATONIC_STEPS.length) * 12 + PENTATONIC_STEPS[step % PENTATONIC_STEPS.length];
+        const frequency = MERGE_FREQUENCY * Math.pow(2, -semitones / 12);
+        this.tone(sound.output, sound.time, 'sine', frequency * 0.75, frequency, 0.3, 0.8);
+        this.tone(sound.output, sound.time, 'triangle', frequency * 2, frequency * 2, 0.15, 0.2);
+    }
+
+    /**
+     * Danger warning beep, played while the table is over the fill limit
+     */
+    danger(): void {
+        const sound = this.start('danger', 'warnings');
+        if (!sound) return;
+        this.tone(sound.output, sound.time, 'square', 740, 740, 0.12, 0.25);
+        this.tone(sound.output, sound.time + 0.15, 'square', 554, 554, 0.12, 0.25);
+    }
+
+    /**
+     * Game over: three falling notes
+     */
+    gameOver(): void {
+        const sound = this.start('gameover', 'warnings');
+        if (!sound) return;
+        [523, 415, 311].forEach((frequency: number, index: number) => {
+            this.tone(sound.output, sound.time + index * 0.25, 'triangle', frequency, frequency * 0.98, 0.4, 0.6);
+        });
+    }
+
+    /**
+     * Sets the gains from the settings
+     */
+    private applyVolumes(): void {
+        if (!this.context || !this.master) return;
+        this.master.gain.value = this.settings.muted ? 0 : this.settings.master;
+        SOUND_CATEGORIES.forEach((category: SoundCategory) => {
+            (this.outputs[category] as GainNode).gain.value = this.settings.volumes[category];
+        });
+    }
+
+    /**
+     * Checks whether a sound may play now, returns its output and start time
+     * Returns null when audio is not running, muted, or the sound already played too often just now
+     */
+    private start(sound: string, category: SoundCategory): { output: GainNode, time: number } | null {
+        const context = this.context;
+        if (!context || context.state !== 'running' || this.quiet) return null;
+        if (this.settings.muted || this.settings.master === 0 || this.settings.volumes[category] === 0) return null;
+
+        const time = context.currentTime;
+        const recent = this.recent[sound];
+        if (recent && time - recent.time < SOUND_WINDOW) {
+            if (recent.count >= MAX_REPEATS) return null;
+            recent.count++;
+        } else {
+            this.recent[sound] = { time, count: 1 };
+        }
+        return { output: this.outputs[category] as GainNode, time };
+    }
+
+    /**
+     * Plays an oscillator sliding from one frequency to another, with a fast attack and an exponential decay
+     */
+    private tone(output: AudioNode, time: number, type: OscillatorType, from: number, to: number,
+        duration: number, volume: number): void {
+        const context = this.context as AudioContext;
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+        oscillator.type = type;
+        oscillator.frequency.setValueAtTime(from, time);
+        oscillator.frequency.exponentialRampToValueAtTime(to, time + duration);
+        envelope.gain.setValueAtTime(0.0001, time);
+        envelope.gain.linearRampToValueAtTime(volume, time + 0.005);
+        envelope.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+        oscillator.connect(envelope);
+        envelope.connect(output);
+        oscillator.start(time);
+        oscillator.stop(time + duration + 0.02);
+    }
+
+    /**
+     * Plays a burst of white noise through a band-pass filter
+     */
+    private noise(output: AudioNode, time: number, duration: number, volume: number, frequency: number): void {
+        const context = this.context as AudioContext;
+        if (!this.noiseBuffer) {
+            // One second of noise, shared by every burst
+            this.noiseBuffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+            const samples = this.noiseBuffer.getChannelData(0);
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = Math.random() * 2 - 1;
+            }
+        }
+        const source = context.createBufferSource();
+        const filter = context.createBiquadFilter();
+        const envelope = context.createGain();
+        source.buffer = this.noiseBuffer;
+        filter.type = 'bandpass';
+        filter.frequency.value = frequency;
+        envelope.gain.setValueAtTime(volume, time);
+        envelope.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+        source.connect(filter);
+        filter.connect(envelope);
+        envelope.connect(output);
+        source.start(time);
+        source.stop(time + duration);
+    }
+}
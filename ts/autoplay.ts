@@ -0,0 +1,118 @@
+import { GameFruit, Position, QueuedFruit } from './fruits.js';
+import { FIXED_TIMESTEP, GameOverReason, MergeEvent, SuikaWorld, WORLD_HEIGHT, WORLD_WIDTH, WorldSnapshot, shotAim } from './world.js';
+import { GameMode } from './modes.js';
+import { Theme } from './themes.js';
+import { Level } from './levels.js';
+
+/**
+ * Read-only view of the table handed to a strategy
+ */
+export interface TableView {
+    readonly width: number;
+    readonly height: number;
+    readonly fruits: ReadonlyArray<Readonly<GameFruit>>;
+    readonly fruitToLaunch: Readonly<GameFruit>;
+    readonly fruitInQueue: Readonly<QueuedFruit>;
+    snapshot(): WorldSnapshot;  // Copy of the full game state, for strategies that simulate shots
+}
+
+/**
+ * Launch chosen by a strategy
+ */
+export interface Shot {
+    angle: number;      // Direction (radians, 0 to the right, -PI/2 straight up)
+    power: number;      // In [0, 1] of the fastest launch
+    offset?: Position;  // Cue offset putting spin on the fruit (see launchSpin), a center hit when missing
+}
+
+/**
+ * Bot playing the game, asked for a shot each time a fruit is ready
+ */
+export interface Strategy {
+    readonly name: string;
+    chooseShot(view: TableView): Shot;
+}
+
+/**
+ * Settings of a headless game
+ */
+export interface AutoplayOptions {
+    seed: number;
+    mode?: GameMode;
+    theme?: Theme;
+    level?: Level | null;
+    specialRate?: number;   // Share of spawns that are special items (none by default)
+    maxFrames?: number;     // Steps after which the game is stopped, for modes without an end
+    maxShots?: number;      // Launches after which the game is stopped (no limit by default)
+    shotFrames?: number;    // Steps between launches, the next fruit is readied early (the full reload by default)
+}
+
+/**
+ * Outcome of a headless game
+ */
+export interface GameResult {
+    seed: number;
+    score: number;
+    shots: number;                      // Launches made before the game ended
+    maxRank: number;                    // Highest fruit rank reached
+    frames: number;
+    endReason: GameOverReason | null;   // null when stopped by maxFrames or maxShots
+}
+
+// Default cap on the length of a headless game (30 simulated minutes)
+const DEFAULT_MAX_FRAMES = Math.round(30 * 60 / FIXED_TIMESTEP);
+
+/**
+ * Plays a whole seeded game with a strategy, shooting as soon as each fruit is ready
+ * The same strategy state, options and seed always give the same result
+ */
+export function playGame(strategy: Strategy, options: AutoplayOptions): GameResult {
+    const world = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT, {
+        seed: options.seed,
+        mode: options.mode,
+        theme: options.theme,
+        level: options.level,
+        specialRate: options.specialRate
+    });
+    world.reset(options.seed);
+
+    let maxRank = world.fruits.reduce((rank: number, fruit: GameFruit) => Math.max(rank, fruit.typeIndex), 0);
+    world.on('merge', (event: MergeEvent) => {
+        maxRank = Math.max(maxRank, event.fruit.typeIndex);
+    });
+
+    const maxFrames = options.maxFrames !== undefined ? options.maxFrames : DEFAULT_MAX_FRAMES;
+    const maxShots = options.maxShots !== undefined ? options.maxShots : Infinity;
+    let lastShotFrame = world.frame;
+    while (!world.gameOver && world.frame < maxFrames) {
+        if (options.shotFrames !== undefined && world.frame - lastShotFrame >= options.shotFrames) {
+            world.skipReload();
+        }
+        const fruitToLaunch = world.fruitToLaunch;
+        if (fruitToLaunch) {
+            // Stop once the last allowed launch had its steps
+            if (world.shots >= maxShots) break;
+            maxRank = Math.max(maxRank, fruitToLaunch.typeIndex);
+            const shot = strategy.chooseShot({
+                width: world.width,
+                height: world.height,
+                fruits: world.fruits,
+                fruitToLaunch,
+                fruitInQueue: world.fruitInQueue,
+                snapshot: () => world.snapshot()
+            });
+            world.launch(shotAim(shot.angle, shot.power), shot.offset);
+            lastShotFrame = world.frame;
+        }
+        world.step();
+    }
+
+    return {
+        seed: options.seed,
+        score: world.score,
+        shots: world.shots,
+        maxRank,
+        frames: world.frame,
+        endReason: world.endReason
+    };
+}
@@ -0,0 +1,57 @@
+// Merges closer than this (seconds) to the previous one extend the chain
+export const COMBO_WINDOW = 1.5;
+
+// Extra score multiplier per merge in a chain (x1, x1.5, x2, ...)
+const MULTIPLIER_PER_COMBO = 0.5;
+
+// Highest multiplier a chain can reach
+const MAX_MULTIPLIER = 5;
+
+/**
+ * Tracks chains of merges that happen in quick succession
+ * Times are simulation times, so combos are deterministic and replay identically
+ */
+export class ComboTracker {
+    count: number = 0;                  // Merges in the current chain (0 when no chain)
+    lastTime: number | null = null;     // Simulation time of the last merge
+
+    /**
+     * Registers a merge, returns its position in the chain (1 = first merge)
+     */
+    register(time: number): number {
+        if (this.lastTime !== null && time - this.lastTime <= COMBO_WINDOW) {
+            this.count++;
+        } else {
+            this.count = 1;
+        }
+        this.lastTime = time;
+        return this.count;
+    }
+
+    /**
+     * Ends the chain once the window after the last merge has passed
+     * Returns true when a chain just ended
+     */
+    expire(time: number): boolean {
+        if (this.count === 0 || this.lastTime === null || time - this.lastTime <= COMBO_WINDOW) {
+            return false;
+        }
+        this.count = 0;
+        return true;
+    }
+
+    /**
+     * Clears the chain
+     */
+    reset(): void {
+        this.count = 0;
+        this.lastTime = null;
+    }
+}
+
+/**
+ * Score multiplier of the nth merge in a chain
+ */
+export function comboMultiplier(count: number): number {
+    return Math.min(1 + Math.max(0, count - 1) * MULTIPLIER_PER_COMBO, MAX_MULTIPLIER);
+}
@@ -0,0 +1,29 @@
+/**
+ * Player assists allowed by a difficulty setting
+ * None of them change the simulation, so scores stay comparable within a difficulty
+ */
+export interface Difficulty {
+    id: string;
+    label: string;
+    trajectoryPreview: boolean;  // Show the predicted path of the next launch
+}
+
+/**
+ * Available difficulty settings
+ */
+export const difficulties: Difficulty[] = [
+    { id: 'casual', label: 'Casual', trajectoryPreview: true },
+    { id: 'competitive', label: 'Competitive', trajectoryPreview: false }
+];
+
+/**
+ * Difficulty imposed on shared challenges, so everyone plays with the same assists
+ */
+export const COMPETITIVE_DIFFICULTY = 'competitive';
+
+/**
+ * Looks a difficulty up by id, falling back to the first one
+ */
+export function getDifficulty(id: string): Difficulty {
+    return difficulties.find((difficulty: Difficulty) => difficulty.id === id) || difficulties[0];
+}
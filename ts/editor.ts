@@ -0,0 +1,165 @@
+import { Position } from './fruits.js';
+import { Obstacle, Surface, distanceToObstacle, moveObstacle } from './obstacles.js';
+import { Level } from './levels.js';
+
+/**
+ * What a click on the table does in the editor
+ */
+export type EditorTool = 'bumper' | 'wall' | 'move' | 'delete' | 'launch';
+
+// Radius of the bumpers placed by the editor (px)
+const BUMPER_RADIUS = 25;
+
+// Distance (px) within which a click picks an obstacle
+const PICK_DISTANCE = 8;
+
+// Walls shorter than this (px) are discarded, a click without dragging is not a wall
+const MIN_WALL_LENGTH = 10;
+
+// Colors of the obstacle surfaces
+const SURFACE_COLORS: { [surface in Surface]: string } = {
+    normal: '#555',
+    bouncy: '#E6007E',
+    sticky: '#8D6E63'
+};
+
+/**
+ * Level editor driven by pointer events on the table
+ * Places, moves and deletes obstacles, and sets the launch position
+ */
+export class LevelEditor {
+    tool: EditorTool = 'bumper';
+    surface: Surface = 'normal';
+    private dragStart: Position | null = null;  // Where the current drag started
+    private dragged: Obstacle | null = null;    // Obstacle being moved
+    private pointer: Position = { x: 0, y: 0 };
+
+    constructor(readonly level: Level) {}
+
+    /**
+     * Applies the current tool at a point, starting a drag for walls and moves
+     */
+    pointerDown(point: Position): void {
+        this.pointer = point;
+        switch (this.tool) {
+            case 'bumper':
+                this.level.obstacles.push({ kind: 'bumper', x: point.x, y: point.y, radius: BUMPER_RADIUS, surface: this.surface });
+                break;
+            case 'wall':
+                this.dragStart = point;
+                break;
+            case 'move':
+                this.dragged = this.pick(point);
+                this.dragStart = this.dragged ? point : null;
+                break;
+            case 'delete': {
+                const obstacle = this.pick(point);
+                if (obstacle) this.level.obstacles.splice(this.level.obstacles.indexOf(obstacle), 1);
+                break;
+            }
+            case 'launch':
+                this.level.launch = { x: point.x, y: point.y };
+                break;
+        }
+    }
+
+    /**
+     * Follows the pointer, dragging the obstacle being moved
+     */
+    pointerMove(point: Position): void {
+        if (this.dragged && this.dragStart) {
+            moveObstacle(this.dragged, point.x - this.dragStart.x, point.y - this.dragStart.y);
+            this.dragStart = point;
+        }
+        this.pointer = point;
+    }
+
+    /**
+     * Ends a drag, adding the wall being drawn
+     */
+    pointerUp(point: Position): void {
+        if (this.tool === 'wall' && this.dragStart) {
+            const length = Math.hypot(point.x - this.dragStart.x, point.y - this.dragStart.y);
+            if (length >= MIN_WALL_LENGTH) {
+                this.level.obstacles.push({
+                    kind: 'wall',
+                    x1: this.dragStart.x,
+                    y1: this.dragStart.y,
+                    x2: point.x,
+                    y2: point.y,
+                    surface: this.surface
+                });
+            }
+        }
+        this.dragStart = null;
+        this.dragged = null;
+    }
+
+    /**
+     * Draws the editor overlay: the wall being drawn and the launch position
+     */
+    draw(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+        if (this.tool === 'wall' && this.dragStart) {
+            drawObstacles(ctx, [{
+                kind: 'wall',
+                x1: this.dragStart.x,
+                y1: this.dragStart.y,
+                x2: this.pointer.x,
+                y2: this.pointer.y,
+                surface: this.surface
+            }]);
+        }
+
+        // Launch position marker
+        const launch = this.level.launch || { x: width / 2, y: height - 50 };
+        ctx.beginPath();
+        ctx.moveTo(launch.x - 10, launch.y);
+        ctx.lineTo(launch.x + 10, launch.y);
+        ctx.moveTo(launch.x, launch.y - 10);
+        ctx.lineTo(launch.x, launch.y + 10);
+        ctx.strokeStyle = '#2E8B57';
+        ctx.lineWidth = 3;
+        ctx.stroke();
+    }
+
+    /**
+     * Level file content
+     */
+    toJSON(): string {
+        return JSON.stringify(this.level, null, 4);
+    }
+
+    /**
+     * Returns the obstacle under a point, the topmost one first
+     */
+    private pick(point: Position): Obstacle | null {
+        for (let i = this.level.obstacles.length - 1; i >= 0; i--) {
+            if (distanceToObstacle(this.level.obstacles[i], point.x, point.y) < PICK_DISTANCE) {
+                return this.level.obstacles[i];
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Draws static obstacles, colored by surface
+ */
+export function drawObstacles(ctx: CanvasRenderingContext2D, obstacles: Obstacle[]): void {
+    obstacles.forEach((obstacle: Obstacle) => {
+        ctx.beginPath();
+        if (obstacle.kind === 'bumper') {
+            ctx.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2);
+            ctx.fillStyle = SURFACE_COLORS[obstacle.surface];
+            ctx.fill();
+        } else {
+            ctx.moveTo(obstacle.x1, obstacle.y1);
+            ctx.lineTo(obstacle.x2, obstacle.y2);
+            ctx.strokeStyle = SURFACE_COLORS[obstacle.surface];
+            ctx.lineWidth = 4;
+            ctx.lineCap = 'round';
+            ctx.stroke();
+            ctx.lineCap = 'butt';
+        }
+    });
+}
@@ -0,0 +1,207 @@
+import { GameFruit } from './fruits.js';
+
+// Particles of a merge burst, plus one per BURST_RADIUS_STEP px of the new fruit's radius
+const BURST_PARTICLES = 12;
+const BURST_RADIUS_STEP = 4;
+const BURST_SPEED = 240;            // Fastest particle speed (px/s)
+const PARTICLE_LIFE = 0.5;          // Seconds
+const PARTICLE_DRAG = 4;            // Particle speed decays by e^(-4) per second
+
+const GROW_TIME = 0.18;             // Duration of a new fruit's grow-in (seconds)
+const GROW_START = 0.6;             // Scale a new fruit grows in from
+
+const POPUP_LIFE = 0.9;             // Seconds a score popup stays
+const POPUP_RISE = 40;              // Distance a popup floats up over its life (px)
+
+const SHAKE_TIME = 0.35;            // Duration of a screen shake (seconds)
+const MAX_SHAKE = 12;               // Largest shake offset (px)
+
+/**
+ * Spark of a merge burst
+ */
+interface Particle {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    size: number;
+    color: string;
+    age: number;
+}
+
+/**
+ * Floating score text
+ */
+interface Popup {
+    x: number;
+    y: number;
+    text: string;
+    color: string;
+    age: number;
+}
+
+/**
+ * Purely visual animations layered over the table: merge bursts, grow-in tweens,
+ * score popups and screen shake
+ * Runs on display time, not on simulation steps, so it never affects the game and
+ * replays or saves don't know about it. Disabled, every effect is skipped (reduced motion)
+ */
+export class EffectLayer {
+    private particles: Particle[] = [];
+    private popups: Popup[] = [];
+    private growing: WeakMap<GameFruit, number> = new WeakMap();   // Start time of each fruit's grow-in
+    private shakeStrength: number = 0;
+    private shakeStart: number = 0;
+    private time: number = 0;                                       // Display time (seconds)
+    private active: boolean = true;
+
+    /**
+     * Whether effects play, turning them off drops those in progress
+     */
+    get enabled(): boolean {
+        return this.active;
+    }
+
+    set enabled(enabled: boolean) {
+        this.active = enabled;
+        if (!enabled) this.clear();
+    }
+
+    /**
+     * Drops every effect in progress, such as after a new game or a replay seek
+     */
+    clear(): void {
+        this.particles = [];
+        this.popups = [];
+        this.growing = new WeakMap();
+        this.shakeStrength = 0;
+    }
+
+    /**
+     * Sparks flying out of a merge, in the new fruit's color
+     */
+    burst(x: number, y: number, radius: number, color: string): void {
+        if (!this.active) return;
+        const count = BURST_PARTICLES + Math.floor(radius / BURST_RADIUS_STEP);
+        for (let i = 0; i < count; i++) {
+            const angle = (i / count) * Math.PI * 2 + Math.random() * 0.3;
+            const speed = BURST_SPEED * (0.4 + 0.6 * Math.random());
+            this.particles.push({
+                x: x + Math.cos(angle) * radius * 0.6,
+                y: y + Math.sin(angle) * radius * 0.6,
+                vx: Math.cos(angle) * speed,
+                vy: Math.sin(angle) * speed,
+                size: 2 + Math.random() * 3,
+                color,
+                age: 0
+            });
+        }
+    }
+
+    /**
+     * Makes a fruit that just appeared grow to its size
+     */
+    growIn(fruit: GameFruit): void {
+        if (this.active) this.growing.set(fruit, this.time);
+    }
+
+    /**
+     * Score text floating up from a point
+     */
+    popup(x: number, y: number, text: string, color: string): void {
+        if (this.active) this.popups.push({ x, y, text, color, age: 0 });
+    }
+
+    /**
+     * Shakes the table, strength in [0, 1]; a stronger shake replaces a weaker one
+     */
+    shake(strength: number): void {
+        if (!this.active) return;
+        if (strength >= this.currentShake()) {
+            this.shakeStrength = Math.min(strength, 1);
+            this.shakeStart = this.time;
+        }
+    }
+
+    /**
+     * Advances the effects by dt seconds of display time
+     */
+    update(dt: number): void {
+        this.time += dt;
+        const drag = Math.exp(-PARTICLE_DRAG * dt);
+        this.particles = this.particles.filter((particle: Particle) => {
+            particle.age += dt;
+            particle.vx *= drag;
+            particle.vy *= drag;
+            particle.x += particle.vx * dt;
+            particle.y += particle.vy * dt;
+            return particle.age < PARTICLE_LIFE;
+        });
+        this.popups = this.popups.filter((popup: Popup) => {
+            popup.age += dt;
+            return popup.age < POPUP_LIFE;
+        });
+    }
+
+    /**
+     * Scale a fruit is drawn at, below 1 while it grows in
+     */
+    scale(fruit: GameFruit): number {
+        const start = this.growing.get(fruit);
+        if (start === undefined) return 1;
+        const progress = (this.time - start) / GROW_TIME;
+        if (progress >= 1) {
+            this.growing.delete(fruit);
+            return 1;
+        }
+        // Ease out with a slight overshoot, like a pop
+        const eased = 1 + 2.2 * Math.pow(progress - 1, 3) + 1.2 * Math.pow(progress - 1, 2);
+        return GROW_START + (1 - GROW_START) * eased;
+    }
+
+    /**
+     * Offset (px) to draw the table at for the screen shake
+     */
+    shakeOffset(): { x: number, y: number } {
+        const amount = this.currentShake() * MAX_SHAKE;
+        if (amount === 0) return { x: 0, y: 0 };
+        return { x: (Math.random() * 2 - 1) * amount, y: (Math.random() * 2 - 1) * amount };
+    }
+
+    /**
+     * Draws the particles and popups, in world units
+     */
+    draw(ctx: CanvasRenderingContext2D): void {
+        this.particles.forEach((particle: Particle) => {
+            const life = 1 - particle.age / PARTICLE_LIFE;
+            ctx.globalAlpha = life;
+            ctx.fillStyle = particle.color;
+            ctx.beginPath();
+            ctx.arc(particle.x, particle.y, particle.size * (0.5 + 0.5 * life), 0, Math.PI * 2);
+            ctx.fill();
+        });
+
+        ctx.font = 'bold 20px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        this.popups.forEach((popup: Popup) => {
+            const progress = popup.age / POPUP_LIFE;
+            const y = popup.y - POPUP_RISE * (1 - (1 - progress) * (1 - progress));
+            ctx.globalAlpha = progress < 2 / 3 ? 1 : (1 - progress) * 3; // Fades over the last third
+            ctx.strokeText(popup.text, popup.x, y);
+            ctx.fillStyle = popup.color;
+            ctx.fillText(popup.text, popup.x, y);
+        });
+        ctx.globalAlpha = 1;
+    }
+
+    /**
+     * Strength of the shake in progress, fading to 0 over SHAKE_TIME
+     */
+    private currentShake(): number {
+        const fade = 1 - (this.time - this.shakeStart) / SHAKE_TIME;
+        return fade > 0 ? this.shakeStrength * fade : 0;
+    }
+}
@@ -0,0 +1,125 @@
+import { FruitFace } from './fruits.js';
+
+// Size of the closed eye of a winking face, relative to the default eye size
+const CLOSED_EYE_SIZE = 0.7;
+
+/**
+ * Draws a fruit face centered on the origin
+ * The caller sets the fill/stroke colors and line width, and the translation and rotation
+ */
+export function drawFace(ctx: CanvasRenderingContext2D, radius: number, face: FruitFace): void {
+    const eyeX = radius * 0.35;
+    const eyeY = -radius * 0.2;
+    const eyeRadius = radius * 0.1;
+    const mouthY = radius * 0.1;
+    const mouthRadius = radius * 0.5;
+
+    // Eyes
+    const eyeSize = eyeRadius * face.eyes.size;
+    switch (face.eyes.shape) {
+        case 'dot':
+            drawOpenEye(ctx, -eyeX, eyeY, eyeSize);
+            drawOpenEye(ctx, eyeX, eyeY, eyeSize);
+            break;
+        case 'squint':
+            drawClosedEye(ctx, -eyeX, eyeY, eyeSize);
+            drawClosedEye(ctx, eyeX, eyeY, eyeSize);
+            break;
+        case 'wink':
+            drawClosedEye(ctx, -eyeX, eyeY, eyeRadius * CLOSED_EYE_SIZE);
+            drawOpenEye(ctx, eyeX, eyeY, eyeSize);
+            break;
+    }
+
+    // Mouth
+    const mouthSize = mouthRadius * face.mouth.size;
+    const y = mouthY + (face.mouth.offset || 0);
+    ctx.beginPath();
+    switch (face.mouth.shape) {
+        case 'o':
+            ctx.arc(0, y, mouthSize, 0, 2 * Math.PI);
+            break;
+        case 'smile': {
+            const inset = face.mouth.inset || 0;
+            ctx.arc(0, y, mouthSize, inset, Math.PI - inset, false);
+            break;
+        }
+        case 'line':
+            ctx.moveTo(-mouthSize, y);
+            ctx.lineTo(mouthSize, y);
+            break;
+    }
+    ctx.stroke();
+
+    // Details
+    (face.extras || []).forEach((extra) => {
+        switch (extra) {
+            case 'mustache': {
+                const lineWidth = ctx.lineWidth;
+                ctx.lineWidth = Math.max(2, radius * 0.08); // Thicker line for mustache
+                ctx.beginPath();
+                ctx.moveTo(-mouthRadius * 0.6, mouthY - 2);
+                ctx.quadraticCurveTo(-mouthRadius * 0.3, mouthY - 8, -mouthRadius * 0.1, mouthY - 2);
+                ctx.moveTo(mouthRadius * 0.1, mouthY - 2);
+                ctx.quadraticCurveTo(mouthRadius * 0.3, mouthY - 8, mouthRadius * 0.6, mouthY - 2);
+                ctx.stroke();
+                ctx.lineWidth = lineWidth;
+                break;
+            }
+            case 'spikes':
+                // Three spiky teeth along the mouth line
+                ctx.beginPath();
+                ctx.moveTo(-mouthRadius * 0.3, mouthY);
+                ctx.lineTo(-mouthRadius * 0.2, mouthY - 3);
+                ctx.moveTo(0, mouthY);
+                ctx.lineTo(0, mouthY - 4);
+                ctx.moveTo(mouthRadius * 0.3, mouthY);
+                ctx.lineTo(mouthRadius * 0.2, mouthY - 3);
+                ctx.stroke();
+                break;
+            case 'teeth':
+                // Four teeth showing in a laugh
+                ctx.beginPath();
+                ctx.moveTo(-mouthRadius * 0.4, mouthY);
+                ctx.lineTo(-mouthRadius * 0.3, mouthY - 4);
+                ctx.moveTo(-mouthRadius * 0.2, mouthY);
+                ctx.lineTo(-mouthRadius * 0.1, mouthY - 5);
+                ctx.moveTo(mouthRadius * 0.2, mouthY);
+                ctx.lineTo(mouthRadius * 0.1, mouthY - 5);
+                ctx.moveTo(mouthRadius * 0.4, mouthY);
+                ctx.lineTo(mouthRadius * 0.3, mouthY - 4);
+                ctx.stroke();
+                break;
+            case 'dimples':
+                drawOpenEye(ctx, -mouthRadius * 0.8, mouthY - 2, 2);
+                drawOpenEye(ctx, mouthRadius * 0.8, mouthY - 2, 2);
+                break;
+            case 'blush': {
+                const fillStyle = ctx.fillStyle;
+                ctx.fillStyle = 'rgba(255, 105, 180, 0.5)';
+                drawOpenEye(ctx, -eyeX * 1.3, mouthY - 2, eyeRadius * 1.2);
+                drawOpenEye(ctx, eyeX * 1.3, mouthY - 2, eyeRadius * 1.2);
+                ctx.fillStyle = fillStyle;
+                break;
+            }
+        }
+    });
+}
+
+/**
+ * Draws a filled round eye (also used for dimples and cheeks)
+ */
+function drawOpenEye(ctx: CanvasRenderingContext2D, x: number, y: number, size: number): void {
+    ctx.beginPath();
+    ctx.arc(x, y, size, 0, 2 * Math.PI);
+    ctx.fill();
+}
+
+/**
+ * Draws a closed eye as an arc, slightly raised
+ */
+function drawClosedEye(ctx: CanvasRenderingContext2D, x: number, y: number, size: number): void {
+    ctx.beginPath();
+    ctx.arc(x, y - 2, size, 0, Math.PI, true);
+    ctx.stroke();
+}
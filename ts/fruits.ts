@@ -0,0 +1,79 @@
+import { SpecialKind } from './specials.js';
+
+/**
+ * Shapes a fruit face can be drawn with
+ * dot: round eyes; squint: closed arcs; wink: left eye closed, right eye round
+ * o: round mouth; smile: arc opening upwards; line: straight mouth
+ */
+export type EyeShape = 'dot' | 'squint' | 'wink';
+export type MouthShape = 'o' | 'smile' | 'line';
+export type FaceExtra = 'mustache' | 'spikes' | 'teeth' | 'dimples' | 'blush';
+
+/**
+ * Declarative description of a fruit face
+ * Sizes are relative to the default eye and mouth size of the fruit
+ */
+export interface FruitFace {
+    eyes: {
+        shape: EyeShape;
+        size: number;
+    };
+    mouth: {
+        shape: MouthShape;
+        size: number;
+        inset?: number;     // Smile only: angle (radians) cut from both ends of the arc
+        offset?: number;    // Vertical shift of the mouth (pixels)
+    };
+    extras?: FaceExtra[];   // Details drawn over the face
+}
+
+/**
+ * Interface defining the basic properties of a fruit type
+ * Used for defining fruit characteristics and creating instances
+ */
+export interface FruitType {
+    rank: number;        // Hierarchy level (0 = smallest, 10 = largest)
+    radius: number;      // Visual size of the fruit
+    color: string;       // Hex color code for rendering
+    name: string;        // Display name of the fruit
+    score: number;       // Points awarded when this fruit is created
+    face: FruitFace;     // How the face of the fruit is drawn
+    special?: SpecialKind; // Power-up this item is (plain fruits have none)
+}
+
+/**
+ * Interface for fruits that are actively in the game world
+ * Extends FruitType with physics and position properties
+ */
+export interface GameFruit extends FruitType {
+    x: number;          // Horizontal position on canvas
+    y: number;          // Vertical position on canvas
+    vx: number;         // Horizontal velocity (pixels per second)
+    vy: number;         // Vertical velocity (pixels per second)
+    typeIndex: number;  // Index in the theme's fruit chain for merging logic (-1 for special items)
+    angle: number;      // Rotation angle, turned by the side spin
+    spin: number;       // Side spin: angular velocity around the vertical axis (radians per second)
+    rollX: number;      // Velocity the fruit's top or back spin rolls it at (pixels per second),
+    rollY: number;      // the same as vx, vy once it rolls without sliding
+    sleeping: boolean;  // At rest, skipped by the solver until something hits it
+    restTime: number;   // Time spent nearly still (seconds), puts the fruit to sleep
+    shot: number;       // Launch that put it on the table, the latest one of the fruits it merged from (-1 for none)
+    frozen?: number;    // Time (s) left frozen in place by an Ice fruit
+}
+
+/**
+ * Interface for fruits waiting to be launched
+ * Simplified version without position or physics properties
+ */
+export interface QueuedFruit extends FruitType {
+    typeIndex: number;  // Index in the theme's fruit chain (-1 for special items)
+}
+
+/**
+ * Simple 2D position interface
+ * Used for mouse position tracking
+ */
+export interface Position {
+    x: number;  // Horizontal coordinate
+    y: number;  // Vertical coordinate
+}
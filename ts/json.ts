@@ -0,0 +1,51 @@
+/**
+ * Type guards for data parsed from JSON (files, saves and network messages)
+ * Parsed data is `unknown` until a guard has checked it
+ */
+
+/**
+ * Object whose fields are not checked yet
+ */
+export type JsonObject = { [key: string]: unknown };
+
+/**
+ * Whether a value is an object, not null nor an array
+ */
+export function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is an array, its items not checked yet
+ */
+export function isArray(value: unknown): value is unknown[] {
+    return Array.isArray(value);
+}
+
+/**
+ * Whether a value is a finite number
+ */
+export function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Whether a value is a whole number of at least min
+ */
+export function isInteger(value: unknown, min: number = -Infinity): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+/**
+ * Whether a value is an object with a finite number in each of the given fields
+ */
+export function hasNumbers<K extends string>(value: unknown, keys: K[]): value is JsonObject & { [key in K]: number } {
+    return isObject(value) && keys.every((key: K) => isNumber(value[key]));
+}
+
+/**
+ * Whether a value is one of the allowed strings
+ */
+export function isOneOf<T extends string>(value: unknown, allowed: T[]): value is T {
+    return allowed.some((option: T) => option === value);
+}
@@ -0,0 +1,123 @@
+import { Position } from './fruits.js';
+import { Obstacle, SURFACES } from './obstacles.js';
+import { JsonObject, hasNumbers, isArray, isInteger, isNumber, isObject, isOneOf } from './json.js';
+
+/**
+ * Fruit placed on the table at the start of a level
+ */
+export interface LevelFruit {
+    typeIndex: number;  // Rank in the theme's chain (clamped to the last fruit of shorter chains)
+    x: number;
+    y: number;
+}
+
+/**
+ * Table layout loaded from a level file
+ */
+export interface Level {
+    id: string;
+    name: string;
+    obstacles: Obstacle[];      // Static bumpers and walls
+    fruits: LevelFruit[];       // Fruits on the table at the start
+    launch?: Position;          // Where fruits are launched from (bottom center when missing)
+}
+
+/**
+ * Creates an empty level, the starting point of the editor
+ */
+export function emptyLevel(): Level {
+    return { id: 'custom', name: 'Custom level', obstacles: [], fruits: [] };
+}
+
+/**
+ * Validates the content of a level file and builds the level
+ * Throws an Error describing the first problem found
+ */
+export function validateLevel(data: unknown): Level {
+    if (!isObject(data)) {
+        throw new Error('Level must be an object');
+    }
+    const id = data.id;
+    if (typeof id !== 'string' || id === '') {
+        throw new Error('Level field "id" must be a non-empty string');
+    }
+    const fail = (message: string): never => {
+        throw new Error(`Level "${id}": ${message}`);
+    };
+    const checkNumbers = <K extends string>(value: JsonObject, keys: K[], where: string): { [key in K]: number } => {
+        if (hasNumbers(value, keys)) return value;
+        const key = keys.find((key: K) => !isNumber(value[key]));
+        return fail(`${where}.${key} must be a number`);
+    };
+    const name = data.name;
+    if (typeof name !== 'string') {
+        return fail('field "name" must be a string');
+    }
+    const obstacleList = data.obstacles;
+    if (!isArray(obstacleList)) {
+        return fail('field "obstacles" must be an array');
+    }
+    const fruitList = data.fruits;
+    if (!isArray(fruitList)) {
+        return fail('field "fruits" must be an array');
+    }
+
+    const obstacles: Obstacle[] = obstacleList.map((obstacle: unknown, index: number): Obstacle => {
+        const where = `obstacles[${index}]`;
+        if (!isObject(obstacle)) {
+            return fail(`${where} must be an object`);
+        }
+        const surface = obstacle.surface;
+        if (!isOneOf(surface, SURFACES)) {
+            return fail(`${where}.surface must be one of ${SURFACES.join(', ')}`);
+        }
+        if (obstacle.kind === 'bumper') {
+            const { x, y, radius } = checkNumbers(obstacle, ['x', 'y', 'radius'], where);
+            if (radius <= 0) {
+                return fail(`${where}.radius must be positive`);
+            }
+            return { kind: 'bumper', x, y, radius, surface };
+        }
+        if (obstacle.kind === 'wall') {
+            const { x1, y1, x2, y2 } = checkNumbers(obstacle, ['x1', 'y1', 'x2', 'y2'], where);
+            return { kind: 'wall', x1, y1, x2, y2, surface };
+        }
+        return fail(`${where}.kind must be "bumper" or "wall"`);
+    });
+
+    const fruits: LevelFruit[] = fruitList.map((fruit: unknown, index: number): LevelFruit => {
+        const where = `fruits[${index}]`;
+        if (!isObject(fruit)) {
+            return fail(`${where} must be an object`);
+        }
+        const { x, y } = checkNumbers(fruit, ['x', 'y'], where);
+        if (!isInteger(fruit.typeIndex, 0)) {
+            return fail(`${where}.typeIndex must be a rank of at least 0`);
+        }
+        return { typeIndex: fruit.typeIndex, x, y };
+    });
+
+    const level: Level = { id, name, obstacles, fruits };
+    if (data.launch !== undefined) {
+        if (!isObject(data.launch)) {
+            return fail('field "launch" must be an {x, y} position');
+        }
+        const { x, y } = checkNumbers(data.launch, ['x', 'y'], 'launch');
+        level.launch = { x, y };
+    }
+    return level;
+}
+
+/**
+ * Parses and validates a level file
+ * Throws an Error describing the first problem found
+ */
+export function parseLevel(text: string): Level {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error('Level file is not valid JSON');
+    }
+    return validateLevel(data);
+}
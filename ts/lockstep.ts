@@ -0,0 +1,202 @@
+import { Position } from './fruits.js';
+import { VersusMatch } from './versus.js';
+import { hasNumbers, isArray, isInteger, isObject } from './json.js';
+
+// Steps per lockstep turn, inputs are exchanged once per turn (0.1 s)
+export const TURN_FRAMES = 6;
+
+// Turns between a launch and the turn it is applied in, hides the network latency
+const INPUT_DELAY_TURNS = 3;
+
+// Turns between two state hashes
+const HASH_INTERVAL_TURNS = 10;
+
+/**
+ * Launch sent to the opponent: aim vector and cue offset, as passed to SuikaWorld.launch
+ */
+export interface VersusLaunch {
+    aim: Position;
+    offset: Position;
+}
+
+/**
+ * Messages exchanged with the relay server, as JSON text frames
+ * join: client asks to play in a room; start: the server paired two clients;
+ * turn: launches of one player for a turn; hash: state hash at the start of a turn;
+ * left: the opponent disconnected; error: the server refused a request
+ */
+export type VersusMessage =
+    | { type: 'join'; room: string }
+    | { type: 'start'; seed: number; player: number }
+    | { type: 'turn'; turn: number; launches: VersusLaunch[] }
+    | { type: 'hash'; turn: number; hash: number }
+    | { type: 'left' }
+    | { type: 'error'; message: string };
+
+/**
+ * Deterministic lockstep over a versus match
+ * Both clients simulate both tables; only launches travel, each tagged with the turn it applies in.
+ * A turn only starts once the launches of both players for it have arrived, so the tables stay identical.
+ * State hashes are exchanged regularly to detect clients that drifted apart anyway
+ */
+export class LockstepSession {
+    desyncTurn: number | null = null;           // First turn whose hashes differed (null while in sync)
+    onDesync: ((turn: number) => void) | null = null;
+    private pending: VersusLaunch[] = [];       // Local launches waiting to be sent
+    private inputs: Map<number, VersusLaunch[]>[] = [new Map(), new Map()];   // Launches by turn, per player
+    private hashes: Map<number, number>[] = [new Map(), new Map()];       // Hashes by turn, per player
+    private sentTurn: number = -1;              // Last turn local launches were sent for
+
+    constructor(
+        readonly match: VersusMatch,
+        readonly player: number,                        // Local player
+        private readonly send: (message: VersusMessage) => void
+    ) {
+        // The first turns have no launches, nobody could have aimed yet
+        for (let turn = 0; turn < INPUT_DELAY_TURNS; turn++) {
+            this.inputs[0].set(turn, []);
+            this.inputs[1].set(turn, []);
+        }
+    }
+
+    /**
+     * Current turn of the match
+     */
+    get turn(): number {
+        return Math.floor(this.match.frame / TURN_FRAMES);
+    }
+
+    /**
+     * Whether a local launch is waiting for its turn, the launcher stays loaded until then
+     */
+    get launchPending(): boolean {
+        if (this.pending.length > 0) return true;
+        const input = this.inputs[this.player];
+        for (let turn = this.turn; turn <= this.sentTurn; turn++) {
+            if ((input.get(turn) || []).length > 0) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Queues a local launch, applied on both clients a few turns later
+     * Returns false when the local table has no fruit ready or a launch is already on its way
+     */
+    launch(aim: Position, offset: Position = { x: 0, y: 0 }): boolean {
+        if (!this.match.tables[this.player].fruitToLaunch || this.launchPending || this.match.result) return false;
+        this.pending.push({ aim: { x: aim.x, y: aim.y }, offset: { x: offset.x, y: offset.y } });
+        return true;
+    }
+
+    /**
+     * Handles a message relayed from the opponent
+     */
+    receive(message: VersusMessage): void {
+        const opponent = 1 - this.player;
+        if (message.type === 'turn') {
+            this.inputs[opponent].set(message.turn, message.launches);
+        } else if (message.type === 'hash') {
+            this.hashes[opponent].set(message.turn, message.hash);
+            this.checkHash(message.turn);
+        }
+    }
+
+    /**
+     * Advances the match by one step when the launches for it are known
+     * Returns false while waiting for the opponent
+     */
+    advance(): boolean {
+        if (this.match.result) return false;
+        const frame = this.match.frame;
+        if (frame % TURN_FRAMES === 0) {
+            const turn = frame / TURN_FRAMES;
+
+            // Send the launches made during the last turn, for the turn they apply in
+            if (this.sentTurn < turn + INPUT_DELAY_TURNS) {
+                this.sentTurn = turn + INPUT_DELAY_TURNS;
+                this.inputs[this.player].set(this.sentTurn, this.pending);
+                this.send({ type: 'turn', turn: this.sentTurn, launches: this.pending });
+                this.pending = [];
+            }
+
+            const launches = this.inputs.map((input: Map<number, VersusLaunch[]>) => input.get(turn));
+            if (!launches[0] || !launches[1]) return false;
+
+            if (turn % HASH_INTERVAL_TURNS === 0 && !this.hashes[this.player].has(turn)) {
+                const hash = this.match.hash();
+                this.hashes[this.player].set(turn, hash);
+                this.send({ type: 'hash', turn, hash });
+                this.checkHash(turn);
+            }
+
+            launches.forEach((turnLaunches: VersusLaunch[] | undefined, player: number) => {
+                (turnLaunches as VersusLaunch[]).forEach((launch: VersusLaunch) =>
+                    this.match.tables[player].launch(launch.aim, launch.offset));
+                this.inputs[player].delete(turn);
+            });
+        }
+        this.match.step();
+        return true;
+    }
+
+    /**
+     * Compares both hashes of a turn once both are known
+     */
+    private checkHash(turn: number): void {
+        const local = this.hashes[this.player].get(turn);
+        const remote = this.hashes[1 - this.player].get(turn);
+        if (local === undefined || remote === undefined) return;
+        this.hashes[0].delete(turn);
+        this.hashes[1].delete(turn);
+        if (local !== remote && this.desyncTurn === null) {
+            this.desyncTurn = turn;
+            if (this.onDesync) this.onDesync(turn);
+        }
+    }
+}
+
+/**
+ * Parses and validates a message received over the network
+ * Throws an Error describing the first problem found
+ */
+export function parseVersusMessage(text: string): VersusMessage {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error('Message is not valid JSON');
+    }
+    if (!isObject(data)) {
+        throw new Error('Message must be an object');
+    }
+    const isLaunch = (launch: unknown): launch is VersusLaunch =>
+        isObject(launch) && hasNumbers(launch.aim, ['x', 'y']) && hasNumbers(launch.offset, ['x', 'y']);
+    switch (data.type) {
+        case 'join':
+            if (typeof data.room !== 'string' || data.room === '') throw new Error('join needs a room name');
+            return { type: 'join', room: data.room };
+        case 'start':
+            if (!isInteger(data.seed, 0) || (data.player !== 0 && data.player !== 1)) throw new Error('start needs a seed and a player');
+            return { type: 'start', seed: data.seed, player: data.player };
+        case 'turn':
+            if (!isInteger(data.turn, 0) || !isArray(data.launches) || !data.launches.every(isLaunch)) {
+                throw new Error('turn needs a turn number and a list of {aim, offset} launches');
+            }
+            return {
+                type: 'turn',
+                turn: data.turn,
+                launches: data.launches.map((launch: VersusLaunch) => ({
+                    aim: { x: launch.aim.x, y: launch.aim.y },
+                    offset: { x: launch.offset.x, y: launch.offset.y }
+                }))
+            };
+        case 'hash':
+            if (!isInteger(data.turn, 0) || !isInteger(data.hash, 0)) throw new Error('hash needs a turn number and a hash');
+            return { type: 'hash', turn: data.turn, hash: data.hash };
+        case 'left':
+            return { type: 'left' };
+        case 'error':
+            return { type: 'error', message: String(data.message) };
+    }
+    throw new Error(`Unknown message type: ${data.type}`);
+}
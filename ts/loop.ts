@@ -0,0 +1,63 @@
+import { FIXED_TIMESTEP } from './world.js';
+
+// Longest frame time taken into account (seconds), avoids a burst of steps after a stall
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Fixed timestep game loop driven by requestAnimationFrame
+ * Runs as many fixed simulation steps as the elapsed time requires, then renders
+ * with the leftover fraction of a step so motion stays smooth at any refresh rate
+ * The loop pauses while the tab is hidden
+ */
+export class FixedTimestepLoop {
+    private accumulator: number = 0;        // Simulated time owed to the simulation (seconds)
+    private lastTime: number | null = null; // Timestamp of the previous frame (ms)
+    private running: boolean = false;
+
+    constructor(
+        private readonly step: () => void,                 // Advances the simulation by FIXED_TIMESTEP
+        private readonly render: (alpha: number) => void   // Draws, alpha in [0, 1) between the last two steps
+    ) {
+        document.addEventListener('visibilitychange', () => {
+            // Forget the time spent hidden, so there is nothing to catch up on return
+            this.lastTime = null;
+            this.accumulator = 0;
+        });
+    }
+
+    /**
+     * Starts the loop if it isn't running already
+     */
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.lastTime = null;
+        requestAnimationFrame(this.frame);
+    }
+
+    /**
+     * Stops the loop after the current frame
+     */
+    stop(): void {
+        this.running = false;
+    }
+
+    private frame = (time: number): void => {
+        if (!this.running) return;
+
+        if (!document.hidden) {
+            if (this.lastTime !== null) {
+                this.accumulator += Math.min((time - this.lastTime) / 1000, MAX_FRAME_TIME);
+            }
+            this.lastTime = time;
+
+            while (this.accumulator >= FIXED_TIMESTEP) {
+                this.step();
+                this.accumulator -= FIXED_TIMESTEP;
+            }
+            this.render(this.accumulator / FIXED_TIMESTEP);
+        }
+
+        requestAnimationFrame(this.frame);
+    }
+}
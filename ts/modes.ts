@@ -0,0 +1,62 @@
+/**
+ * Rules deciding when a game ends
+ * A mode can combine several limits, the first one reached ends the game
+ */
+export interface GameMode {
+    id: string;
+    label: string;
+    description: string;        // Shown on the start screen
+    fillLimit: boolean;         // Whether filling the table ends the game
+    dangerTime: number;         // Seconds the table may stay over the fill limit before the game ends
+    timeLimit: number | null;   // Simulated seconds until the game ends (null for no limit)
+    shotLimit: number | null;   // Launches allowed, the game ends once the last one settles (null for no limit)
+}
+
+/**
+ * Available game modes, the first one is the default
+ */
+export const gameModes: GameMode[] = [
+    {
+        id: 'classic',
+        label: 'Classic',
+        description: 'Play until the table stays 90% full',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: null
+    },
+    {
+        id: 'zen',
+        label: 'Zen',
+        description: 'No game over, merge at your own pace',
+        fillLimit: false,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: null
+    },
+    {
+        id: 'time-attack',
+        label: 'Time Attack',
+        description: 'Best score in 2 minutes',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: 120,
+        shotLimit: null
+    },
+    {
+        id: 'limited-shots',
+        label: 'Limited Shots',
+        description: 'Best score with 30 launches',
+        fillLimit: true,
+        dangerTime: 3,
+        timeLimit: null,
+        shotLimit: 30
+    }
+];
+
+/**
+ * Looks a game mode up by id, falling back to the first one
+ */
+export function getGameMode(id: string): GameMode {
+    return gameModes.find((mode: GameMode) => mode.id === id) || gameModes[0];
+}
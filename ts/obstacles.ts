@@ -0,0 +1,79 @@
+import { Position } from './fruits.js';
+
+/**
+ * How an obstacle reacts to fruits hitting it
+ * normal: bounces like the rails; bouncy: kicks fruits away; sticky: absorbs the impact and grips
+ */
+export type Surface = 'normal' | 'bouncy' | 'sticky';
+
+/**
+ * Static round bumper
+ */
+export interface Bumper {
+    kind: 'bumper';
+    x: number;
+    y: number;
+    radius: number;
+    surface: Surface;
+}
+
+/**
+ * Static line-segment wall, fruits bounce off both sides and both ends
+ */
+export interface WallSegment {
+    kind: 'wall';
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    surface: Surface;
+}
+
+export type Obstacle = Bumper | WallSegment;
+
+export const SURFACES: Surface[] = ['normal', 'bouncy', 'sticky'];
+
+/**
+ * Point of the obstacle's core closest to (x, y)
+ * The core is the center of a bumper, or the nearest point on a wall
+ */
+export function closestPoint(obstacle: Obstacle, x: number, y: number): Position {
+    if (obstacle.kind === 'bumper') {
+        return { x: obstacle.x, y: obstacle.y };
+    }
+    const dx = obstacle.x2 - obstacle.x1;
+    const dy = obstacle.y2 - obstacle.y1;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - obstacle.x1) * dx + (y - obstacle.y1) * dy) / lengthSq)) : 0;
+    return { x: obstacle.x1 + dx * t, y: obstacle.y1 + dy * t };
+}
+
+/**
+ * Thickness of an obstacle around its core (the radius of a bumper, 0 for a wall)
+ */
+export function obstacleRadius(obstacle: Obstacle): number {
+    return obstacle.kind === 'bumper' ? obstacle.radius : 0;
+}
+
+/**
+ * Distance from (x, y) to the surface of an obstacle (negative inside a bumper)
+ */
+export function distanceToObstacle(obstacle: Obstacle, x: number, y: number): number {
+    const point = closestPoint(obstacle, x, y);
+    return Math.sqrt((x - point.x) * (x - point.x) + (y - point.y) * (y - point.y)) - obstacleRadius(obstacle);
+}
+
+/**
+ * Moves an obstacle by an offset
+ */
+export function moveObstacle(obstacle: Obstacle, dx: number, dy: number): void {
+    if (obstacle.kind === 'bumper') {
+        obstacle.x += dx;
+        obstacle.y += dy;
+    } else {
+        obstacle.x1 += dx;
+        obstacle.y1 += dy;
+        obstacle.x2 += dx;
+        obstacle.y2 += dy;
+    }
+}
@@ -0,0 +1,614 @@
+import { GameFruit } from './fruits.js';
+import { Circle, SpatialHash } from './spatial-hash.js';
+import { Pocket, overPocket } from './pockets.js';
+import { Obstacle, Surface, WallSegment, closestPoint, obstacleRadius } from './obstacles.js';
+
+/**
+ * Tunable settings of the physics solver
+ */
+export interface PhysicsOptions {
+    substeps: number;            // Minimum number of substeps per fixed step
+    maxSubsteps: number;         // Upper bound when fast fruits require more substeps
+    positionIterations: number;  // Overlap correction passes per substep
+    sleeping: boolean;           // Whether fruits at rest are put to sleep
+}
+
+/**
+ * Default solver settings
+ */
+export const DEFAULT_PHYSICS: PhysicsOptions = {
+    substeps: 2,
+    maxSubsteps: 16,
+    positionIterations: 4,
+    sleeping: true
+};
+
+/**
+ * Physics constants, in per-second units so the simulation does not depend on the display rate
+ */
+const LINEAR_DAMPING = 1.2;          // Friction: velocity decays by e^(-1.2) per second
+const SPIN_DAMPING = 1.5;            // Side spin decays by e^(-1.5) per second
+const CLOTH_FRICTION = 600;          // Deceleration (px/s²) of a fruit sliding on the table, until it rolls
+const FRUIT_FRICTION = 0.2;          // Tangential over normal impulse limit of fruit-to-fruit contacts
+const WALL_FRICTION = 0.3;           // Tangential over normal impulse limit of rails and obstacles
+const WALL_RESTITUTION = 0.7;        // Fraction of speed kept when bouncing off a wall
+const FRUIT_RESTITUTION = 0.95;      // Fraction of speed kept by fruit-to-fruit impacts
+const RESTING_SPEED = 20;            // Impacts slower than this (px/s) don't bounce, so clusters calm down
+const MAX_TRAVEL_PER_SUBSTEP = 0.5;  // Max travel per substep, as a fraction of the smallest radius
+const PENETRATION_SLOP = 0.5;        // Overlap (px) tolerated without correction, avoids jitter
+const CORRECTION_PERCENT = 0.8;      // Share of the overlap removed per correction pass
+const SLEEP_SPEED = 5;               // Speed (px/s) under which a fruit starts resting
+const SLEEP_DELAY = 0.5;             // Time (s) a fruit has to rest before falling asleep
+const WAKE_SPEED = 10;               // Impact speed (px/s) that wakes a sleeping fruit
+const BOUNCY_RESTITUTION = 1;        // Fraction of speed kept when bouncing off a bouncy surface
+const BUMPER_KICK = 250;             // Speed (px/s) added by a bouncy surface, away from it
+const STICKY_GRIP = 0.3;             // Fraction of the sliding speed kept after touching a sticky surface
+
+// Moment of inertia of a fruit as a fraction of m r² (solid ball), the mass being the radius
+export const INERTIA_FACTOR = 0.4;
+
+// Tangential impulses also turn the fruits, which makes them this much less effective
+const TANGENTIAL_FACTOR = 1 + 1 / INERTIA_FACTOR;
+
+/**
+ * Axis-aligned rectangle the fruits are kept in, with static obstacles inside
+ * Rails are open where a pocket is, letting fruits fall in
+ */
+export interface Bounds {
+    width: number;
+    height: number;
+    pockets?: Pocket[];
+    obstacles?: Obstacle[];
+}
+
+/**
+ * Called for every pair of fruits in contact, after their impact was resolved
+ * Returns the fruits replacing both (one for a merge, none when they vanish), or null to keep them
+ * `fruits` is the current fruit list, for effects reaching other fruits
+ */
+export type ContactHandler = (f1: GameFruit, f2: GameFruit, fruits: GameFruit[]) => GameFruit[] | null;
+
+/**
+ * Called for every impact hard enough to bounce, with the contact point and the closing speed (px/s)
+ * `wall` is true for rails and obstacles
+ */
+export type ImpactHandler = (x: number, y: number, speed: number, wall: boolean) => void;
+
+/**
+ * Fruit physics solver
+ * Each fixed step is split into substeps; every substep integrates motion, sweeps fruit pairs
+ * for the time of impact (so fast fruits can't tunnel through small ones), resolves impacts
+ * with impulses, then iteratively pushes remaining overlaps apart. Fruits at rest fall asleep
+ * and are skipped until something hits them.
+ * Fruits are balls seen from above: side spin turns them and grips at contacts (with Coulomb
+ * friction), top and back spin roll them, the table's friction turning a slide into a roll.
+ */
+export class PhysicsSolver {
+    readonly options: PhysicsOptions;
+    private readonly grid: SpatialHash;
+    private readonly minRadius: number;
+    private startX: number[] = [];         // Positions at the start of the current substep
+    private startY: number[] = [];
+    private swept: Circle[] = [];          // Circles enclosing each fruit's motion over the substep
+    private candidates: number[] = [];
+
+    constructor(private readonly bounds: Bounds, minRadius: number, options: Partial<PhysicsOptions> = {},
+        private readonly onImpact: ImpactHandler | null = null) {
+        this.options = { ...DEFAULT_PHYSICS, ...options };
+        this.grid = new SpatialHash(bounds.width, bounds.height);
+        this.minRadius = minRadius;
+    }
+
+    /**
+     * Advances the fruits by dt seconds
+     * Returns the updated fruit list (merged fruits replaced by their result)
+     */
+    step(fruits: GameFruit[], dt: number, onContact: ContactHandler): GameFruit[] {
+        const substeps = this.substepCount(fruits, dt);
+        const h = dt / substeps;
+        for (let s = 0; s < substeps; s++) {
+            this.integrate(fruits, h);
+            fruits = this.solveContacts(fruits, h, onContact);
+            for (let k = 0; k < this.options.positionIterations; k++) {
+                this.correctPositions(fruits);
+            }
+        }
+        if (this.options.sleeping) {
+            this.updateSleep(fruits, dt);
+        }
+        return fruits;
+    }
+
+    /**
+     * Picks enough substeps that no fruit travels more than a fraction of the smallest radius
+     */
+    private substepCount(fruits: GameFruit[], dt: number): number {
+        let maxSpeed = 0;
+        fruits.forEach((fruit: GameFruit) => {
+            if (fruit.sleeping) return;
+            maxSpeed = Math.max(maxSpeed, Math.sqrt(fruit.vx * fruit.vx + fruit.vy * fruit.vy));
+        });
+        const needed = Math.ceil((maxSpeed * dt) / (this.minRadius * MAX_TRAVEL_PER_SUBSTEP));
+        return Math.max(this.options.substeps, Math.min(needed, this.options.maxSubsteps));
+    }
+
+    /**
+     * Applies friction and moves awake fruits, bouncing them off the four walls
+     */
+    private integrate(fruits: GameFruit[], h: number): void {
+        const damping = Math.exp(-LINEAR_DAMPING * h);
+        const spinDamping = Math.exp(-SPIN_DAMPING * h);
+        for (let i = 0; i < fruits.length; i++) {
+            const fruit = fruits[i];
+            this.startX[i] = fruit.x;
+            this.startY[i] = fruit.y;
+            if (fruit.sleeping) continue;
+
+            // Apply friction to gradually slow down fruits, a rolling fruit keeps rolling
+            fruit.vx *= damping;
+            fruit.vy *= damping;
+            fruit.rollX *= damping;
+            fruit.rollY *= damping;
+            fruit.spin *= spinDamping;
+            this.applyClothFriction(fruit, h);
+
+            // Update position based on velocity
+            fruit.x += fruit.vx * h;
+            fruit.y += fruit.vy * h;
+
+            // Side spin turns the fruit
+            fruit.angle += fruit.spin * h;
+
+            // Walls are axis-aligned, so clamping back to the contact position is exact
+            this.collideWalls(fruit);
+        }
+    }
+
+    /**
+     * Table friction on a sliding fruit, until it rolls without sliding
+     * Top spin drives the fruit forward, back spin pulls it back (screw-back) and a sideways roll curves its path
+     */
+    private applyClothFriction(fruit: GameFruit, h: number): void {
+        // Velocity of the point touching the table
+        const slipX = fruit.vx - fruit.rollX;
+        const slipY = fruit.vy - fruit.rollY;
+        const slip = Math.sqrt(slipX * slipX + slipY * slipY);
+        if (slip === 0) return;
+
+        // The speed change stops at the point where the fruit rolls
+        const change = Math.min(CLOTH_FRICTION * h, slip / TANGENTIAL_FACTOR);
+        fruit.vx -= (slipX / slip) * change;
+        fruit.vy -= (slipY / slip) * change;
+        fruit.rollX += (slipX / slip) * change / INERTIA_FACTOR;
+        fruit.rollY += (slipY / slip) * change / INERTIA_FACTOR;
+    }
+
+    /**
+     * Keeps a fruit inside the walls, reflecting its velocity with energy loss
+     */
+    private collideWalls(fruit: GameFruit): void {
+        const pockets = this.bounds.pockets;
+        if (pockets && pockets.length > 0 && overPocket(fruit, pockets)) return; // No rail at a pocket mouth
+
+        if (fruit.x - fruit.radius < 0) {
+            fruit.x = fruit.radius;
+            if (fruit.vx < 0) this.bounceOffRail(fruit, 1, 0, -fruit.vx); // Bounce with energy loss
+        } else if (fruit.x + fruit.radius > this.bounds.width) {
+            fruit.x = this.bounds.width - fruit.radius;
+            if (fruit.vx > 0) this.bounceOffRail(fruit, -1, 0, fruit.vx);
+        }
+        if (fruit.y - fruit.radius < 0) { // Top wall
+            fruit.y = fruit.radius;
+            if (fruit.vy < 0) this.bounceOffRail(fruit, 0, 1, -fruit.vy);
+        } else if (fruit.y + fruit.radius > this.bounds.height) { // Bottom wall
+            fruit.y = this.bounds.height - fruit.radius;
+            if (fruit.vy > 0) this.bounceOffRail(fruit, 0, -1, fruit.vy);
+        }
+    }
+
+    /**
+     * Reflects a fruit hitting a rail at approachSpeed, along the rail's normal (pointing into the table)
+     */
+    private bounceOffRail(fruit: GameFruit, nx: number, ny: number, approachSpeed: number): void {
+        if (this.onImpact && approachSpeed > RESTING_SPEED) {
+            this.onImpact(fruit.x - nx * fruit.radius, fruit.y - ny * fruit.radius, approachSpeed, true);
+        }
+        const change = (1 + WALL_RESTITUTION) * approachSpeed;
+        fruit.vx += change * nx;
+        fruit.vy += change * ny;
+        this.applyWallFriction(fruit, nx, ny, change);
+    }
+
+    /**
+     * Friction of a rail or obstacle on a fruit bouncing off it, along the contact
+     * Side spin grips and bends the rebound, a glancing impact sets the fruit spinning
+     * normalChange is the normal speed change of the bounce, which limits the friction
+     */
+    private applyWallFriction(fruit: GameFruit, nx: number, ny: number, normalChange: number): void {
+        // Sliding speed of the contact point along the tangent (-ny, nx)
+        const slip = -fruit.vx * ny + fruit.vy * nx - fruit.spin * fruit.radius;
+        const limit = WALL_FRICTION * normalChange;
+        const change = Math.max(-limit, Math.min(-slip / TANGENTIAL_FACTOR, limit));
+        fruit.vx -= change * ny;
+        fruit.vy += change * nx;
+        fruit.spin -= change / (INERTIA_FACTOR * fruit.radius);
+    }
+
+    /**
+     * Finds and resolves fruit impacts over the substep
+     * Pairs are swept from their start to end positions; a pair that touches during the
+     * substep is moved back to its time of impact before the impulse is applied
+     */
+    private solveContacts(fruits: GameFruit[], h: number, onContact: ContactHandler): GameFruit[] {
+        // Broad phase on the swept circles
+        for (let i = 0; i < fruits.length; i++) {
+            const fruit = fruits[i];
+            const dx = fruit.x - this.startX[i];
+            const dy = fruit.y - this.startY[i];
+            this.swept[i] = {
+                x: (fruit.x + this.startX[i]) / 2,
+                y: (fruit.y + this.startY[i]) / 2,
+                radius: fruit.radius + Math.sqrt(dx * dx + dy * dy) / 2
+            };
+        }
+        this.swept.length = fruits.length;
+        this.grid.build(this.swept);
+
+        const removed: boolean[] = [];
+        const created: GameFruit[] = [];
+        for (let i = 0; i < fruits.length; i++) {
+            if (removed[i]) continue;
+            const f1 = fruits[i];
+            const candidates = this.grid.query(this.swept[i].x, this.swept[i].y, this.swept[i].radius, this.candidates);
+            for (let k = 0; k < candidates.length; k++) {
+                const j = candidates[k];
+                if (j <= i || removed[j]) continue; // Each pair once, skip merged fruits
+                const f2 = fruits[j];
+                if (f1.sleeping && f2.sleeping) continue;
+
+                const normal = this.contactNormal(fruits, i, j);
+                if (!normal) continue;
+
+                this.resolveImpact(f1, f2, normal.x, normal.y);
+
+                // Let the game rules react to the contact (merging)
+                const result = onContact(f1, f2, fruits);
+                if (result) {
+                    removed[i] = true;
+                    removed[j] = true;
+                    created.push(...result);
+                    break; // f1 is gone, move on to the next fruit
+                }
+            }
+
+            // Static obstacles take part in the same pass
+            if (!removed[i] && !f1.sleeping) {
+                this.collideObstacles(f1, i);
+            }
+        }
+
+        if (!removed.some((flag: boolean) => flag)) return fruits;
+        return fruits.filter((fruit: GameFruit, index: number) => !removed[index]).concat(created);
+    }
+
+    /**
+     * Returns the contact normal (from fruit i to fruit j) if they touch during the substep
+     * Rewinds both fruits to the time of impact when they only met mid-substep
+     */
+    private contactNormal(fruits: GameFruit[], i: number, j: number): { x: number, y: number } | null {
+        const f1 = fruits[i];
+        const f2 = fruits[j];
+        const minDistance = f1.radius + f2.radius;
+
+        // Relative position at the start of the substep and relative displacement
+        const px = this.startX[j] - this.startX[i];
+        const py = this.startY[j] - this.startY[i];
+        const startDistanceSq = px * px + py * py;
+
+        if (startDistanceSq >= minDistance * minDistance) {
+            // Separated at the start: solve |p + d t| = minDistance for the first t in [0, 1]
+            const dx = (f2.x - this.startX[j]) - (f1.x - this.startX[i]);
+            const dy = (f2.y - this.startY[j]) - (f1.y - this.startY[i]);
+            const a = dx * dx + dy * dy;
+            if (a === 0) return null;
+            const b = 2 * (px * dx + py * dy);
+            const c = startDistanceSq - minDistance * minDistance;
+            const discriminant = b * b - 4 * a * c;
+            if (discriminant < 0) return null;
+            const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+            if (t < 0 || t > 1) return null;
+
+            // Move both fruits back to where they touched
+            f1.x = this.startX[i] + (f1.x - this.startX[i]) * t;
+            f1.y = this.startY[i] + (f1.y - this.startY[i]) * t;
+            f2.x = this.startX[j] + (f2.x - this.startX[j]) * t;
+            f2.y = this.startY[j] + (f2.y - this.startY[j]) * t;
+            return { x: (px + dx * t) / minDistance, y: (py + dy * t) / minDistance };
+        }
+
+        // Already touching: use the current positions (arbitrary normal when centers coincide)
+        const nx = f2.x - f1.x;
+        const ny = f2.y - f1.y;
+        const distance = Math.sqrt(nx * nx + ny * ny);
+        if (distance >= minDistance) return null;
+        return distance > 0 ? { x: nx / distance, y: ny / distance } : { x: 1, y: 0 };
+    }
+
+    /**
+     * Resolves the impacts of a fruit with the static obstacles over the substep
+     * Like fruit pairs, a fruit that only met an obstacle mid-substep is moved back to the time of impact
+     */
+    private collideObstacles(fruit: GameFruit, i: number): void {
+        const obstacles = this.bounds.obstacles;
+        if (!obstacles) return;
+        for (let k = 0; k < obstacles.length; k++) {
+            const normal = this.obstacleNormal(fruit, i, obstacles[k]);
+            if (normal) {
+                this.resolveObstacleImpact(fruit, normal.x, normal.y, obstacles[k].surface);
+            }
+        }
+    }
+
+    /**
+     * Returns the contact normal (from the obstacle to the fruit) if they touch during the substep
+     * Rewinds the fruit to the time of impact when it only met the obstacle mid-substep
+     */
+    private obstacleNormal(fruit: GameFruit, i: number, obstacle: Obstacle): { x: number, y: number } | null {
+        const minDistance = fruit.radius + obstacleRadius(obstacle);
+        const startX = this.startX[i];
+        const startY = this.startY[i];
+        const dx = fruit.x - startX;
+        const dy = fruit.y - startY;
+
+        // Earliest time of impact over the substep, or 0 when already touching at the start
+        let t = 1;
+        const start = closestPoint(obstacle, startX, startY);
+        const startDistanceSq = (startX - start.x) * (startX - start.x) + (startY - start.y) * (startY - start.y);
+        if (startDistanceSq < minDistance * minDistance) {
+            t = 0;
+        } else if (obstacle.kind === 'bumper') {
+            t = sweepCircle(startX, startY, dx, dy, obstacle.x, obstacle.y, minDistance);
+        } else {
+            // A wall is its two end points plus the band along the segment
+            t = Math.min(
+                sweepCircle(startX, startY, dx, dy, obstacle.x1, obstacle.y1, minDistance),
+                sweepCircle(startX, startY, dx, dy, obstacle.x2, obstacle.y2, minDistance),
+                sweepSegment(startX, startY, dx, dy, obstacle, minDistance)
+            );
+        }
+
+        if (t > 0 && t < 1) {
+            fruit.x = startX + dx * t;
+            fruit.y = startY + dy * t;
+        } else if (t === 1) {
+            // No impact during the sweep, only an overlap at the end position counts
+            const end = closestPoint(obstacle, fruit.x, fruit.y);
+            const endDistanceSq = (fruit.x - end.x) * (fruit.x - end.x) + (fruit.y - end.y) * (fruit.y - end.y);
+            if (endDistanceSq >= minDistance * minDistance) return null;
+        }
+
+        const point = closestPoint(obstacle, fruit.x, fruit.y);
+        const nx = fruit.x - point.x;
+        const ny = fruit.y - point.y;
+        const distance = Math.sqrt(nx * nx + ny * ny);
+        return distance > 0 ? { x: nx / distance, y: ny / distance } : { x: 0, y: -1 };
+    }
+
+    /**
+     * Bounces a fruit off a static obstacle according to its surface
+     */
+    private resolveObstacleImpact(fruit: GameFruit, nx: number, ny: number, surface: Surface): void {
+        const approachSpeed = fruit.vx * nx + fruit.vy * ny;
+        if (approachSpeed >= 0) return; // Already leaving
+
+        let restitution = -approachSpeed > RESTING_SPEED ? WALL_RESTITUTION : 0;
+        if (this.onImpact && restitution > 0) {
+            this.onImpact(fruit.x - nx * fruit.radius, fruit.y - ny * fruit.radius, -approachSpeed, true);
+        }
+        if (surface === 'bouncy') restitution = BOUNCY_RESTITUTION;
+        if (surface === 'sticky') restitution = 0;
+        fruit.vx -= (1 + restitution) * approachSpeed * nx;
+        fruit.vy -= (1 + restitution) * approachSpeed * ny;
+        this.applyWallFriction(fruit, nx, ny, -(1 + restitution) * approachSpeed);
+
+        if (surface === 'bouncy') {
+            fruit.vx += BUMPER_KICK * nx;
+            fruit.vy += BUMPER_KICK * ny;
+        } else if (surface === 'sticky') {
+            // Only the sliding part of the velocity is left, and most of it is absorbed
+            fruit.vx *= STICKY_GRIP;
+            fruit.vy *= STICKY_GRIP;
+        }
+    }
+
+    /**
+     * Pushes a fruit out of the obstacles it overlaps
+     */
+    private separateFromObstacles(fruit: GameFruit): void {
+        const obstacles = this.bounds.obstacles;
+        if (!obstacles) return;
+        for (let k = 0; k < obstacles.length; k++) {
+            const obstacle = obstacles[k];
+            const point = closestPoint(obstacle, fruit.x, fruit.y);
+            const dx = fruit.x - point.x;
+            const dy = fruit.y - point.y;
+            const minDistance = fruit.radius + obstacleRadius(obstacle);
+            const distanceSq = dx * dx + dy * dy;
+            if (distanceSq >= minDistance * minDistance) continue;
+
+            const distance = Math.sqrt(distanceSq);
+            const penetration = minDistance - distance;
+            if (penetration <= PENETRATION_SLOP) continue;
+            const nx = distance > 0 ? dx / distance : 0;
+            const ny = distance > 0 ? dy / distance : -1;
+            fruit.x += nx * (penetration - PENETRATION_SLOP) * CORRECTION_PERCENT;
+            fruit.y += ny * (penetration - PENETRATION_SLOP) * CORRECTION_PERCENT;
+        }
+    }
+
+    /**
+     * Applies the collision impulse along the normal, using radius as mass
+     * Slow impacts don't bounce, so resting clusters lose their energy instead of jittering
+     */
+    private resolveImpact(f1: GameFruit, f2: GameFruit, nx: number, ny: number): void {
+        const approachSpeed = (f2.vx - f1.vx) * nx + (f2.vy - f1.vy) * ny;
+        if (approachSpeed >= 0) return; // Already separating
+
+        // Wake sleeping fruits hit hard enough, otherwise they act as immovable
+        if (-approachSpeed > WAKE_SPEED) {
+            this.wake(f1);
+            this.wake(f2);
+        }
+        const invMass1 = f1.sleeping ? 0 : 1 / f1.radius;
+        const invMass2 = f2.sleeping ? 0 : 1 / f2.radius;
+        if (invMass1 + invMass2 === 0) return;
+
+        const restitution = -approachSpeed > RESTING_SPEED ? FRUIT_RESTITUTION : 0;
+        if (this.onImpact && restitution > 0) {
+            this.onImpact(f1.x + nx * f1.radius, f1.y + ny * f1.radius, -approachSpeed, false);
+        }
+        const impulse = -(1 + restitution) * approachSpeed / (invMass1 + invMass2);
+        f1.vx -= impulse * invMass1 * nx;
+        f1.vy -= impulse * invMass1 * ny;
+        f2.vx += impulse * invMass2 * nx;
+        f2.vy += impulse * invMass2 * ny;
+        this.applyContactFriction(f1, f2, nx, ny, impulse, invMass1, invMass2);
+    }
+
+    /**
+     * Friction between two fruits in contact, limited by the normal impulse of their impact
+     * Spinning fruits throw each other sideways, glancing impacts make them spin
+     */
+    private applyContactFriction(f1: GameFruit, f2: GameFruit, nx: number, ny: number,
+        normalImpulse: number, invMass1: number, invMass2: number): void {
+        // Sliding speed of f2's contact point relative to f1's, along the tangent (-ny, nx)
+        const slip = -(f2.vx - f1.vx) * ny + (f2.vy - f1.vy) * nx - f1.spin * f1.radius - f2.spin * f2.radius;
+        const limit = FRUIT_FRICTION * normalImpulse;
+        const impulse = Math.max(-limit, Math.min(-slip / ((invMass1 + invMass2) * TANGENTIAL_FACTOR), limit));
+        f1.vx += impulse * invMass1 * ny;
+        f1.vy -= impulse * invMass1 * nx;
+        f2.vx -= impulse * invMass2 * ny;
+        f2.vy += impulse * invMass2 * nx;
+        f1.spin -= impulse * invMass1 / (INERTIA_FACTOR * f1.radius);
+        f2.spin -= impulse * invMass2 / (INERTIA_FACTOR * f2.radius);
+    }
+
+    /**
+     * Pushes overlapping fruits apart, proportionally to their inverse mass
+     * Sleeping fruits don't move unless both are asleep (then the pair is left alone)
+     */
+    private correctPositions(fruits: GameFruit[]): void {
+        this.grid.build(fruits);
+        for (let i = 0; i < fruits.length; i++) {
+            const f1 = fruits[i];
+            const candidates = this.grid.query(f1.x, f1.y, f1.radius, this.candidates);
+            for (let k = 0; k < candidates.length; k++) {
+                const j = candidates[k];
+                if (j <= i) continue;
+                const f2 = fruits[j];
+                const invMass1 = f1.sleeping ? 0 : 1 / f1.radius;
+                const invMass2 = f2.sleeping ? 0 : 1 / f2.radius;
+                if (invMass1 + invMass2 === 0) continue;
+
+                const dx = f2.x - f1.x;
+                const dy = f2.y - f1.y;
+                const minDistance = f1.radius + f2.radius;
+                const distanceSq = dx * dx + dy * dy;
+                if (distanceSq >= minDistance * minDistance) continue;
+
+                const distance = Math.sqrt(distanceSq);
+                const penetration = minDistance - distance;
+                if (penetration <= PENETRATION_SLOP) continue;
+                const nx = distance > 0 ? dx / distance : 1;
+                const ny = distance > 0 ? dy / distance : 0;
+                const correction = (penetration - PENETRATION_SLOP) * CORRECTION_PERCENT / (invMass1 + invMass2);
+                f1.x -= nx * correction * invMass1;
+                f1.y -= ny * correction * invMass1;
+                f2.x += nx * correction * invMass2;
+                f2.y += ny * correction * invMass2;
+            }
+        }
+        fruits.forEach((fruit: GameFruit) => {
+            if (fruit.sleeping) return;
+            this.separateFromObstacles(fruit);
+            this.collideWalls(fruit);
+        });
+    }
+
+    /**
+     * Puts fruits that stayed slow long enough to sleep
+     * A fruit stopped with spin left is not at rest, the spin is about to move it
+     */
+    private updateSleep(fruits: GameFruit[], dt: number): void {
+        fruits.forEach((fruit: GameFruit) => {
+            if (fruit.sleeping) return;
+            const rollSq = fruit.rollX * fruit.rollX + fruit.rollY * fruit.rollY;
+            if (fruit.vx * fruit.vx + fruit.vy * fruit.vy < SLEEP_SPEED * SLEEP_SPEED &&
+                rollSq < SLEEP_SPEED * SLEEP_SPEED && Math.abs(fruit.spin * fruit.radius) < SLEEP_SPEED) {
+                fruit.restTime += dt;
+                if (fruit.restTime >= SLEEP_DELAY) {
+                    fruit.sleeping = true;
+                    fruit.vx = 0;
+                    fruit.vy = 0;
+                    fruit.rollX = 0;
+                    fruit.rollY = 0;
+                    fruit.spin = 0;
+                }
+            } else {
+                fruit.restTime = 0;
+            }
+        });
+    }
+
+    /**
+     * Wakes a fruit up so it is simulated again
+     * Frozen fruits stay asleep, they act as immovable until they thaw
+     */
+    wake(fruit: GameFruit): void {
+        if (fruit.frozen) return;
+        fruit.sleeping = false;
+        fruit.restTime = 0;
+    }
+}
+
+/**
+ * First time t in [0, 1] when a point moving from (x, y) by (dx, dy) gets within radius of (cx, cy)
+ * Returns 1 when it doesn't during the move (the point starts outside)
+ */
+function sweepCircle(x: number, y: number, dx: number, dy: number, cx: number, cy: number, radius: number): number {
+    const px = x - cx;
+    const py = y - cy;
+    const a = dx * dx + dy * dy;
+    if (a === 0) return 1;
+    const b = 2 * (px * dx + py * dy);
+    const c = px * px + py * py - radius * radius;
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return 1;
+    const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+    return t >= 0 && t <= 1 ? t : 1;
+}
+
+/**
+ * First time t in [0, 1] when a moving point gets within distance of a wall, between its end points
+ * Returns 1 when it doesn't during the move (the point starts outside)
+ */
+function sweepSegment(x: number, y: number, dx: number, dy: number, wall: WallSegment, distance: number): number {
+    const sx = wall.x2 - wall.x1;
+    const sy = wall.y2 - wall.y1;
+    const length = Math.sqrt(sx * sx + sy * sy);
+    if (length === 0) return 1;
+
+    // Signed distance to the wall's line changes linearly along the move
+    const nx = -sy / length;
+    const ny = sx / length;
+    const startDistance = (x - wall.x1) * nx + (y - wall.y1) * ny;
+    const speed = dx * nx + dy * ny;
+    if (speed === 0 || Math.abs(startDistance) < distance) return 1;
+    const target = startDistance > 0 ? distance : -distance;
+    const t = (target - startDistance) / speed;
+    if (t < 0 || t > 1) return 1;
+
+    // The band only covers the segment, its ends are handled as circles
+    const along = ((x + dx * t - wall.x1) * sx + (y + dy * t - wall.y1) * sy) / (length * length);
+    return along >= 0 && along <= 1 ? t : 1;
+}
@@ -0,0 +1,67 @@
+import { GameFruit } from './fruits.js';
+
+/**
+ * Hole in the rim of the table
+ * Centered on the edge of the table, a fruit whose center gets inside it falls in
+ */
+export interface Pocket {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+// Default pocket sizes (px)
+const CORNER_POCKET_RADIUS = 45;
+const SIDE_POCKET_RADIUS = 38;
+
+/**
+ * Pool table layout: four corner pockets and two side pockets
+ * Side pockets sit in the middle of the left and right rails, clear of the launcher
+ */
+export function poolPockets(
+    width: number,
+    height: number,
+    cornerRadius: number = CORNER_POCKET_RADIUS,
+    sideRadius: number = SIDE_POCKET_RADIUS
+): Pocket[] {
+    return [
+        { x: 0, y: 0, radius: cornerRadius },
+        { x: width, y: 0, radius: cornerRadius },
+        { x: 0, y: height, radius: cornerRadius },
+        { x: width, y: height, radius: cornerRadius },
+        { x: 0, y: height / 2, radius: sideRadius },
+        { x: width, y: height / 2, radius: sideRadius }
+    ];
+}
+
+/**
+ * Whether a fruit overlaps the mouth of a pocket, where the rails are open
+ */
+export function overPocket(fruit: GameFruit, pockets: Pocket[]): boolean {
+    return pockets.some((pocket: Pocket) => {
+        const dx = fruit.x - pocket.x;
+        const dy = fruit.y - pocket.y;
+        const reach = pocket.radius + fruit.radius;
+        return dx * dx + dy * dy < reach * reach;
+    });
+}
+
+/**
+ * Returns the pocket a fruit fell into, or null
+ * A fruit falls in once its center is inside the pocket, or past the rail through its mouth
+ */
+export function findPocket(fruit: GameFruit, pockets: Pocket[], width: number, height: number): Pocket | null {
+    const outside = fruit.x < 0 || fruit.x > width || fruit.y < 0 || fruit.y > height;
+    let nearest: Pocket | null = null;
+    let nearestDistance = Infinity;
+    pockets.forEach((pocket: Pocket) => {
+        const dx = fruit.x - pocket.x;
+        const dy = fruit.y - pocket.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if ((distance < pocket.radius || outside) && distance < nearestDistance) {
+            nearest = pocket;
+            nearestDistance = distance;
+        }
+    });
+    return nearest;
+}
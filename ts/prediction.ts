@@ -0,0 +1,79 @@
+import { GameFruit, Position } from './fruits.js';
+import { PhysicsSolver } from './physics.js';
+import { FIXED_TIMESTEP, SuikaWorld, launchSpin, launchVelocity } from './world.js';
+
+// Longest time simulated ahead (seconds)
+const MAX_PREDICTION_TIME = 3;
+
+// Speed (px/s) under which the launched fruit is considered stopped, when its spin won't move it either
+const STOP_SPEED = 5;
+
+/**
+ * Predicted outcome of a launch
+ */
+export interface TrajectoryPrediction {
+    path: Position[];           // Positions of the launched fruit, one per step
+    hit: GameFruit | null;      // First fruit it would touch (null when it touches none)
+    hitPoint: Position | null;  // Where the launched fruit would be at that moment
+    merges: boolean;            // Whether the first hit is a fruit of the same type
+    rest: Position;             // Where the launched fruit would stop (the merge point if it merges)
+}
+
+/**
+ * Predicts the path of the fruit ready to be launched
+ * Runs the real solver on a copy of the table, so wall rebounds, friction and
+ * collisions match what the launch will do, spin included (merges are not applied)
+ * Returns null when there is no fruit to launch
+ */
+export function predictLaunch(world: SuikaWorld, aim: Position, offset: Position = { x: 0, y: 0 }): TrajectoryPrediction | null {
+    if (!world.fruitToLaunch) return null;
+
+    // Copy the table so the real fruits are left untouched
+    const originals = world.fruits;
+    let fruits: GameFruit[] = originals.map((fruit: GameFruit) => ({ ...fruit }));
+    const velocity = launchVelocity(aim);
+    const projectile: GameFruit = {
+        ...world.fruitToLaunch,
+        ...launchSpin(velocity, offset, world.fruitToLaunch.radius),
+        vx: velocity.x,
+        vy: velocity.y,
+        sleeping: false,
+        restTime: 0
+    };
+    fruits.push(projectile);
+
+    const solver = new PhysicsSolver(world, world.theme.fruits[0].radius, world.physics);
+    const prediction: TrajectoryPrediction = {
+        path: [{ x: projectile.x, y: projectile.y }],
+        hit: null,
+        hitPoint: null,
+        merges: false,
+        rest: { x: projectile.x, y: projectile.y }
+    };
+
+    const steps = Math.round(MAX_PREDICTION_TIME / FIXED_TIMESTEP);
+    for (let i = 0; i < steps; i++) {
+        fruits = solver.step(fruits, FIXED_TIMESTEP, (f1: GameFruit, f2: GameFruit) => {
+            if (prediction.hit || (f1 !== projectile && f2 !== projectile)) return null;
+            const other = f1 === projectile ? f2 : f1;
+            prediction.hit = originals[fruits.indexOf(other)] || null;
+            prediction.hitPoint = { x: projectile.x, y: projectile.y };
+            prediction.merges = projectile.special === 'rainbow'
+                ? !other.special
+                : !projectile.special && !other.special && other.typeIndex === projectile.typeIndex;
+            return null;
+        });
+        prediction.path.push({ x: projectile.x, y: projectile.y });
+
+        if (prediction.merges && prediction.hitPoint) {
+            prediction.rest = prediction.hitPoint; // The launched fruit disappears in the merge
+            return prediction;
+        }
+        const speedSq = projectile.vx * projectile.vx + projectile.vy * projectile.vy;
+        const rollSq = projectile.rollX * projectile.rollX + projectile.rollY * projectile.rollY;
+        if (projectile.sleeping || Math.max(speedSq, rollSq) < STOP_SPEED * STOP_SPEED) break;
+    }
+
+    prediction.rest = { x: projectile.x, y: projectile.y };
+    return prediction;
+}
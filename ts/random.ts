@@ -0,0 +1,85 @@
+/**
+ * Source of pseudo-random numbers used by the simulation
+ * Any implementation can be plugged into the world as long as it is deterministic for a seed
+ */
+export interface RandomSource {
+    next(): number;          // Uniform number in [0, 1)
+    getState(): number;      // Internal state, used for saving games
+    setState(state: number): void;
+}
+
+/**
+ * Factory creating a random source from a seed
+ */
+export type RandomFactory = (seed: number) => RandomSource;
+
+/**
+ * Mulberry32 generator
+ * Small, fast 32-bit PRNG with a single word of state
+ */
+export class Mulberry32 implements RandomSource {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+/**
+ * Default factory used by the world
+ */
+export const createRandom: RandomFactory = (seed: number) => new Mulberry32(seed);
+
+/**
+ * Picks a fresh seed for a non-reproducible game
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Converts user input into a seed
+ * Plain integers are used as-is, any other text is hashed (FNV-1a)
+ */
+export function parseSeed(text: string): number {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) >>> 0;
+    }
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < trimmed.length; i++) {
+        hash ^= trimmed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Returns the UTC date key (YYYY-MM-DD) of the daily challenge
+ */
+export function dailyKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Seed of the daily challenge, identical for every player on the same UTC day
+ */
+export function dailySeed(date: Date): number {
+    return parseSeed(`daily-${dailyKey(date)}`);
+}
@@ -0,0 +1,241 @@
+import { EndOfChainRule, LaunchEvent, MAX_PLAYERS, SuikaWorld } from './world.js';
+import { DEFAULT_THEME, Theme, validateTheme } from './themes.js';
+import { getGameMode } from './modes.js';
+import { Pocket } from './pockets.js';
+import { Level, validateLevel } from './levels.js';
+import { hasNumbers, isArray, isInteger, isNumber, isObject, isOneOf } from './json.js';
+
+// Current version of the replay file format
+// Version 2: frames are fixed simulation steps with per-second physics
+// Version 3: substep solver with continuous collisions and sleeping
+// Version 4: fill measured as covered area, game over after a danger period
+// Version 5: spin and contact friction, launches may carry a cue offset
+export const REPLAY_VERSION = 5;
+
+/**
+ * Single recorded launch, stored as a compact tuple
+ * [frame, aimX, aimY]: the launch happens when the world reaches `frame`, before stepping
+ * [frame, aimX, aimY, cueX, cueY]: same, for a fruit struck off-center (see launchSpin)
+ */
+export type ReplayLaunch = [number, number, number] | [number, number, number, number, number];
+
+/**
+ * Recorded game
+ * The seed plus every launch is enough to replay the whole game deterministically
+ */
+export interface Replay {
+    version: number;          // File format version
+    seed: number;             // Seed of the fruit sequence
+    width: number;            // World width the game was played in
+    height: number;           // World height the game was played in
+    frames: number;           // Total number of frames recorded
+    score: number;            // Score at the end of the recording
+    launches: ReplayLaunch[]; // All launches in frame order
+    endOfChain?: EndOfChainRule; // Watermelon rule the game was played with ('keep' when missing)
+    theme?: Theme;            // Fruit set the game was played with (the default theme when missing)
+    mode?: string;            // Game mode id (classic when missing)
+    pockets?: Pocket[];       // Table pockets (none when missing)
+    level?: Level | null;     // Table layout (bare table when missing)
+    players?: number;         // Hot-seat players (1 when missing)
+    specialRate?: number;     // Share of special spawns (none when missing)
+}
+
+/**
+ * Records the launches of a world into a replay
+ * Starts a new recording every time the world is reset
+ */
+export class ReplayRecorder {
+    private launches: ReplayLaunch[] = [];
+    private readonly unsubscribe: (() => void)[];
+
+    constructor(private readonly world: SuikaWorld) {
+        this.unsubscribe = [
+            world.on('reset', () => {
+                this.launches = [];
+            }),
+            world.on('launch', (event: LaunchEvent) => {
+                this.launches.push(event.offset.x !== 0 || event.offset.y !== 0
+                    ? [event.frame, event.aim.x, event.aim.y, event.offset.x, event.offset.y]
+                    : [event.frame, event.aim.x, event.aim.y]);
+            })
+        ];
+    }
+
+    /**
+     * Launches recorded so far
+     */
+    getLaunches(): ReplayLaunch[] {
+        return this.launches.slice();
+    }
+
+    /**
+     * Continues an earlier recording, e.g. after resuming a saved game
+     */
+    resume(launches: ReplayLaunch[]): void {
+        this.launches = launches.slice();
+    }
+
+    /**
+     * Builds the replay of the game recorded so far
+     */
+    toReplay(): Replay {
+        return {
+            version: REPLAY_VERSION,
+            seed: this.world.seed,
+            width: this.world.width,
+            height: this.world.height,
+            frames: this.world.frame,
+            score: this.world.score,
+            launches: this.launches.slice(),
+            endOfChain: this.world.endOfChain,
+            theme: this.world.theme,
+            mode: this.world.mode.id,
+            pockets: this.world.pockets,
+            level: this.world.level,
+            players: this.world.players,
+            specialRate: this.world.specialRate
+        };
+    }
+
+    /**
+     * Stops listening to the world
+     */
+    dispose(): void {
+        this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    }
+}
+
+/**
+ * Parses and validates a replay file
+ * Throws an Error describing the first problem found
+ */
+export function parseReplay(text: string): Replay {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error('Replay file is not valid JSON');
+    }
+    if (!isObject(data)) {
+        throw new Error('Replay file must contain an object');
+    }
+    if (data.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version: ${data.version}`);
+    }
+    ['seed', 'width', 'height', 'frames', 'score'].forEach((key) => {
+        if (!isNumber(data[key])) {
+            throw new Error(`Replay field "${key}" must be a number`);
+        }
+    });
+    if (data.endOfChain !== undefined && !isOneOf(data.endOfChain, ['keep', 'vanish', 'explode'])) {
+        throw new Error(`Unknown end-of-chain rule: ${data.endOfChain}`);
+    }
+    if (data.mode !== undefined && (typeof data.mode !== 'string' || getGameMode(data.mode).id !== data.mode)) {
+        throw new Error(`Unknown game mode: ${data.mode}`);
+    }
+    if (data.pockets !== undefined && (!isArray(data.pockets) || !data.pockets.every((pocket: unknown) =>
+        hasNumbers(pocket, ['x', 'y', 'radius'])))) {
+        throw new Error('Replay field "pockets" must be a list of {x, y, radius}');
+    }
+    if (data.players !== undefined && (!isInteger(data.players, 1) || data.players > MAX_PLAYERS)) {
+        throw new Error(`Replay field "players" must be a whole number from 1 to ${MAX_PLAYERS}`);
+    }
+    if (data.specialRate !== undefined && (!isNumber(data.specialRate) || data.specialRate < 0 || data.specialRate > 1)) {
+        throw new Error('Replay field "specialRate" must be a number from 0 to 1');
+    }
+    if (data.level !== undefined && data.level !== null) {
+        data.level = validateLevel(data.level);
+    }
+    if (data.theme !== undefined) {
+        data.theme = validateTheme(data.theme);
+    }
+    const launches = data.launches;
+    if (!isArray(launches)) {
+        throw new Error('Replay field "launches" must be an array');
+    }
+    let previousFrame = -Infinity;
+    launches.forEach((launch: unknown, index: number) => {
+        if (!isArray(launch) || (launch.length !== 3 && launch.length !== 5) || !launch.every(isNumber)) {
+            throw new Error(`Replay launch #${index} must be a [frame, aimX, aimY] or [frame, aimX, aimY, cueX, cueY] tuple`);
+        }
+        if (launch[0] < previousFrame) {
+            throw new Error(`Replay launch #${index} is out of frame order`);
+        }
+        previousFrame = launch[0];
+    });
+    // Every field has been checked above
+    return data as unknown as Replay;
+}
+
+/**
+ * Plays a replay back on a world
+ * The world is driven frame by frame, so playback can be paused, sped up or seeked
+ */
+export class ReplayPlayer {
+    private nextLaunch: number = 0; // Index of the next launch to apply
+
+    constructor(private readonly world: SuikaWorld, readonly replay: Replay) {
+        if (world.width !== replay.width || world.height !== replay.height) {
+            throw new Error(`Replay was recorded on a ${replay.width}x${replay.height} table`);
+        }
+        this.restart();
+    }
+
+    /**
+     * Current playback frame
+     */
+    get frame(): number {
+        return this.world.frame;
+    }
+
+    /**
+     * Whether playback reached the end of the recording
+     */
+    get finished(): boolean {
+        return this.world.frame >= this.replay.frames || this.world.gameOver;
+    }
+
+    /**
+     * Rewinds the world to the beginning of the replay
+     */
+    restart(): void {
+        this.world.endOfChain = this.replay.endOfChain || 'keep';
+        this.world.theme = this.replay.theme || DEFAULT_THEME;
+        this.world.mode = getGameMode(this.replay.mode || '');
+        this.world.pockets = this.replay.pockets || [];
+        this.world.level = this.replay.level || null;
+        this.world.players = this.replay.players || 1;
+        this.world.specialRate = this.replay.specialRate || 0;
+        this.world.reset(this.replay.seed);
+        this.nextLaunch = 0;
+    }
+
+    /**
+     * Plays one frame: applies the launches recorded for it, then steps the world
+     */
+    advance(): void {
+        if (this.finished) return;
+
+        const launches = this.replay.launches;
+        while (this.nextLaunch < launches.length && launches[this.nextLaunch][0] <= this.world.frame) {
+            const launch = launches[this.nextLaunch];
+            this.world.launch({ x: launch[1], y: launch[2] }, { x: launch[3] || 0, y: launch[4] || 0 });
+            this.nextLaunch++;
+        }
+        this.world.step();
+    }
+
+    /**
+     * Moves playback to the given frame
+     * Seeking backwards replays the game from the start
+     */
+    seek(frame: number): void {
+        const target = Math.max(0, Math.min(frame, this.replay.frames));
+        if (target < this.world.frame) {
+            this.restart();
+        }
+        while (this.world.frame < target && !this.finished) {
+            this.advance();
+        }
+    }
+}
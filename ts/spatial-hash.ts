@@ -0,0 +1,112 @@
+/**
+ * Minimal shape stored in the spatial hash
+ */
+export interface Circle {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * Uniform grid broad phase for circles
+ * Each circle is stored in every cell its bounding box touches, so a query only
+ * looks at the cells around the queried circle instead of every fruit
+ * Circles outside the bounds are clamped into the border cells
+ */
+export class SpatialHash {
+    private readonly columns: number;
+    private readonly rows: number;
+    private readonly cells: number[][] = [];
+    private readonly counts: number[] = [];  // Items in each cell, its array keeps stale entries past that
+    private readonly used: number[] = [];    // Cells holding items, the only ones clear() has to reset
+    private stamps: number[] = [];   // Last query each item was returned by, to skip duplicates
+    private queryId: number = 0;
+
+    constructor(width: number, height: number, readonly cellSize: number = 48) {
+        this.columns = Math.max(1, Math.ceil(width / cellSize));
+        this.rows = Math.max(1, Math.ceil(height / cellSize));
+        for (let i = 0; i < this.columns * this.rows; i++) {
+            this.cells.push([]);
+            this.counts.push(0);
+        }
+    }
+
+    /**
+     * Removes every item, keeping the cell arrays for reuse
+     */
+    clear(): void {
+        for (let i = 0; i < this.used.length; i++) {
+            this.counts[this.used[i]] = 0;
+        }
+        this.used.length = 0;
+    }
+
+    /**
+     * Stores an item (identified by its index) in the cells its circle covers
+     */
+    insert(index: number, circle: Circle): void {
+        const minX = this.column(circle.x - circle.radius);
+        const maxX = this.column(circle.x + circle.radius);
+        const minY = this.row(circle.y - circle.radius);
+        const maxY = this.row(circle.y + circle.radius);
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (let cx = minX; cx <= maxX; cx++) {
+                const cell = cy * this.columns + cx;
+                if (this.counts[cell] === 0) this.used.push(cell);
+                this.cells[cell][this.counts[cell]++] = index;
+            }
+        }
+        this.stamps[index] = 0;
+    }
+
+    /**
+     * Rebuilds the hash from a list of circles, indexed by their position in the list
+     */
+    build(circles: Circle[]): void {
+        this.clear();
+        for (let i = 0; i < circles.length; i++) {
+            this.insert(i, circles[i]);
+        }
+    }
+
+    /**
+     * Collects the indices of items whose cells touch the given circle
+     * Candidates still need an exact distance test
+     */
+    query(x: number, y: number, radius: number, out: number[] = []): number[] {
+        out.length = 0;
+        const id = ++this.queryId;
+        const minX = this.column(x - radius);
+        const maxX = this.column(x + radius);
+        const minY = this.row(y - radius);
+        const maxY = this.row(y + radius);
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (let cx = minX; cx <= maxX; cx++) {
+                const cell = this.cells[cy * this.columns + cx];
+                const count = this.counts[cy * this.columns + cx];
+                for (let k = 0; k < count; k++) {
+                    const index = cell[k];
+                    if (this.stamps[index] !== id) {
+                        this.stamps[index] = id;
+                        out.push(index);
+                    }
+                }
+            }
+        }
+        return out;
+    }
+
+    /**
+     * Column of a horizontal coordinate, clamped to the grid
+     */
+    private column(x: number): number {
+        return Math.min(this.columns - 1, Math.max(0, Math.floor(x / this.cellSize)));
+    }
+
+    /**
+     * Row of a vertical coordinate, clamped to the grid
+     */
+    private row(y: number): number {
+        return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+    }
+}
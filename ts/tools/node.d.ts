@@ -0,0 +1,49 @@
+/**
+ * Typings for the few Node built-ins the tools use
+ * The project builds with the TypeScript compiler alone, without @types/node
+ */
+
+declare const process: {
+    argv: string[];
+};
+
+declare module 'net' {
+    interface Socket {
+        write(data: Uint8Array): boolean;
+        end(data?: Uint8Array): void;
+        destroy(): void;
+        on(event: 'data', listener: (chunk: Uint8Array) => void): this;
+        on(event: 'close' | 'end', listener: () => void): this;
+        on(event: 'error', listener: (error: Error) => void): this;
+    }
+}
+
+declare module 'http' {
+    import { Socket } from 'net';
+
+    interface IncomingMessage {
+        url?: string;
+        headers: { [name: string]: string | string[] | undefined };
+    }
+
+    interface ServerResponse {
+        writeHead(status: number, headers?: { [name: string]: string }): this;
+        end(body?: string): void;
+    }
+
+    interface Server {
+        on(event: 'upgrade', listener: (request: IncomingMessage, socket: Socket, head: Uint8Array) => void): this;
+        listen(port: number, listener?: () => void): this;
+    }
+
+    function createServer(listener?: (request: IncomingMessage, response: ServerResponse) => void): Server;
+}
+
+declare module 'crypto' {
+    interface Hash {
+        update(data: string): Hash;
+        digest(encoding: 'base64'): string;
+    }
+
+    function createHash(algorithm: 'sha1'): Hash;
+}
@@ -0,0 +1,394 @@
+import { GameFruit } from '../fruits.js';
+import { PhysicsOptions } from '../physics.js';
+import { ClearEvent, EndOfChainRule, FILL_LIMIT, FIXED_TIMESTEP, MAX_LAUNCH_SPEED, MergeEvent, PocketEvent, SpecialEvent, SuikaWorld } from '../world.js';
+import { DEFAULT_THEME } from '../themes.js';
+import { Obstacle } from '../obstacles.js';
+import { COMBO_WINDOW } from '../combo.js';
+import { poolPockets } from '../pockets.js';
+import { FREEZE_TIME, SpecialKind, specialType } from '../specials.js';
+
+/**
+ * Physics and game rule regression scenarios
+ * Each scenario sets up a small table, runs the real simulation and checks one property
+ *
+ * Usage: node js/tools/scenarios.js
+ */
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+/**
+ * Regression scenario, returns an error message when the check fails
+ */
+interface Scenario {
+    name: string;
+    run: () => string | null;
+}
+
+/**
+ * Creates a fruit of the given type at a position
+ */
+function makeFruit(typeIndex: number, x: number, y: number, vx: number = 0, vy: number = 0): GameFruit {
+    return { ...DEFAULT_THEME.fruits[typeIndex], typeIndex, x, y, vx, vy, angle: 0, spin: 0, rollX: vx, rollY: vy, sleeping: false, restTime: 0, shot: -1 };
+}
+
+/**
+ * Creates an empty world holding only the given fruits
+ */
+function makeWorld(fruits: GameFruit[], physics: Partial<PhysicsOptions> = {}): SuikaWorld {
+    const world = new SuikaWorld(WIDTH, HEIGHT, { seed: 1, physics });
+    world.reset(1);
+    world.fruits = fruits;
+    return world;
+}
+
+/**
+ * Steps a world for the given simulated time
+ */
+function run(world: SuikaWorld, seconds: number, check?: () => string | null): string | null {
+    const steps = Math.round(seconds / FIXED_TIMESTEP);
+    for (let i = 0; i < steps; i++) {
+        world.step();
+        const error = check ? check() : null;
+        if (error) return `step ${i}: ${error}`;
+    }
+    return null;
+}
+
+/**
+ * A cherry and a strawberry fired at each other at full speed must bounce, never pass through
+ * Their closing speed covers more than both diameters' worth of overlap in a single step
+ */
+function tunnellingScenario(physics: Partial<PhysicsOptions>): () => string | null {
+    return () => {
+        for (let offset = 0; offset < 10; offset++) {
+            const cherry = makeFruit(0, 100 + offset * 3, 300, MAX_LAUNCH_SPEED, 0);
+            const strawberry = makeFruit(1, 400, 300, -MAX_LAUNCH_SPEED, 0);
+            const world = makeWorld([cherry, strawberry], physics);
+            const error = run(world, 0.5, () =>
+                cherry.x > strawberry.x ? `cherry passed through the strawberry (offset ${offset})` : null);
+            if (error) return error;
+        }
+        return null;
+    };
+}
+
+/**
+ * A cherry fired at full speed into a wall must stay inside the table
+ */
+function wallScenario(): string | null {
+    const cherry = makeFruit(0, WIDTH - 100, 300, MAX_LAUNCH_SPEED, MAX_LAUNCH_SPEED * 0.3);
+    const world = makeWorld([cherry], { substeps: 1, maxSubsteps: 1 });
+    return run(world, 2, () => {
+        if (cherry.x - cherry.radius < -0.001 || cherry.x + cherry.radius > WIDTH + 0.001 ||
+            cherry.y - cherry.radius < -0.001 || cherry.y + cherry.radius > HEIGHT + 0.001) {
+            return `cherry left the table at (${cherry.x.toFixed(1)}, ${cherry.y.toFixed(1)})`;
+        }
+        return null;
+    });
+}
+
+/**
+ * Builds a tightly packed checkerboard of cherries and strawberries in a corner
+ * Same-type fruits are only diagonal neighbours, too far apart to touch and merge
+ */
+function makeCluster(): GameFruit[] {
+    const fruits: GameFruit[] = [];
+    const spacing = DEFAULT_THEME.fruits[0].radius + DEFAULT_THEME.fruits[1].radius - 1; // Slightly compressed
+    for (let row = 0; row < 6; row++) {
+        for (let column = 0; column < 8; column++) {
+            fruits.push(makeFruit((row + column) % 2, 30 + column * spacing, HEIGHT - 30 - row * spacing));
+        }
+    }
+    return fruits;
+}
+
+/**
+ * A packed cluster must come to rest (all asleep) without drifting or jittering
+ */
+function stackAtRestScenario(): string | null {
+    const fruits = makeCluster();
+    const start = fruits.map((fruit: GameFruit) => ({ x: fruit.x, y: fruit.y }));
+    const world = makeWorld(fruits);
+    const error = run(world, 3);
+    if (error) return error;
+
+    const awake = world.fruits.filter((fruit: GameFruit) => !fruit.sleeping).length;
+    if (awake > 0) return `${awake} fruits still awake after 3s`;
+    if (world.fruits.length !== fruits.length) return 'fruits merged in a mixed cluster';
+    const drift = Math.max(...fruits.map((fruit: GameFruit, index: number) =>
+        Math.hypot(fruit.x - start[index].x, fruit.y - start[index].y)));
+    if (drift > 3) return `cluster drifted by ${drift.toFixed(2)}px`;
+
+    // Once asleep, nothing may move anymore
+    const settled = fruits.map((fruit: GameFruit) => ({ x: fruit.x, y: fruit.y }));
+    run(world, 2);
+    const jitter = Math.max(...fruits.map((fruit: GameFruit, index: number) =>
+        Math.hypot(fruit.x - settled[index].x, fruit.y - settled[index].y)));
+    return jitter > 0 ? `resting cluster jittered by ${jitter.toFixed(4)}px` : null;
+}
+
+/**
+ * A cluster hit by a fast fruit must wake up, then settle again
+ */
+function wakeAndResettleScenario(): string | null {
+    const fruits = makeCluster();
+    const world = makeWorld(fruits);
+    run(world, 3);
+
+    const grape = makeFruit(2, WIDTH - 100, HEIGHT - 100, -MAX_LAUNCH_SPEED, 0);
+    world.fruits.push(grape);
+    run(world, 0.5);
+    if (world.fruits.every((fruit: GameFruit) => fruit.sleeping)) return 'cluster did not wake up when hit';
+
+    run(world, 10);
+    const awake = world.fruits.filter((fruit: GameFruit) => !fruit.sleeping).length;
+    return awake > 0 ? `${awake} fruits still awake 10s after the impact` : null;
+}
+
+/**
+ * A cherry fired at full speed into a wall segment and a bumper must bounce off both, never cross them
+ */
+function obstacleScenario(): string | null {
+    const obstacles: Obstacle[] = [
+        { kind: 'wall', x1: 400, y1: 100, x2: 400, y2: 250, surface: 'normal' },
+        { kind: 'bumper', x: 400, y: 450, radius: 20, surface: 'bouncy' }
+    ];
+    for (const y of [175, 450]) {
+        const cherry = makeFruit(0, 100, y, MAX_LAUNCH_SPEED, 0);
+        const world = makeWorld([cherry], { substeps: 1, maxSubsteps: 1 });
+        world.obstacles = obstacles;
+        let bounced = false;
+        const error = run(world, 1, () => {
+            bounced = bounced || cherry.vx < 0;
+            return cherry.x > 400 ? `cherry crossed the obstacle at y=${y}` : null;
+        });
+        if (error) return error;
+        if (!bounced) return `cherry did not bounce off the obstacle at y=${y}`;
+    }
+    return null;
+}
+
+/**
+ * Merges in quick succession must chain and multiply their points, a merge after the window starts over
+ */
+function comboScenario(): string | null {
+    const world = makeWorld([makeFruit(0, 200, 300), makeFruit(0, 220, 300), makeFruit(0, 600, 300), makeFruit(0, 620, 300)]);
+    const merges: MergeEvent[] = [];
+    world.on('merge', (merge: MergeEvent) => merges.push(merge));
+    run(world, 0.5);
+    run(world, COMBO_WINDOW + 0.5);
+    world.fruits.push(makeFruit(2, 400, 100), makeFruit(2, 420, 100));
+    run(world, 0.5);
+
+    const strawberry = DEFAULT_THEME.fruits[1].score;
+    const dekopon = DEFAULT_THEME.fruits[3].score;
+    const expected = [
+        { combo: 1, multiplier: 1, points: strawberry },
+        { combo: 2, multiplier: 1.5, points: Math.round(strawberry * 1.5) },
+        { combo: 1, multiplier: 1, points: dekopon }
+    ];
+    if (merges.length !== expected.length) return `${merges.length} merges instead of ${expected.length}`;
+    for (let i = 0; i < expected.length; i++) {
+        const { combo, multiplier, points } = merges[i];
+        if (combo !== expected[i].combo || multiplier !== expected[i].multiplier || points !== expected[i].points) {
+            return `merge ${i + 1} was combo ${combo} x${multiplier} for ${points} points`;
+        }
+    }
+    return world.score === strawberry + Math.round(strawberry * 1.5) + dekopon ? null : `score is ${world.score}`;
+}
+
+/**
+ * Two touching Watermelons must follow the end-of-chain rule: stay, vanish, or vanish pushing a nearby cherry away
+ * Every clear is counted and scores its bonus
+ */
+function endOfChainScenario(rule: EndOfChainRule): () => string | null {
+    return () => {
+        const last = DEFAULT_THEME.fruits.length - 1;
+        const radius = DEFAULT_THEME.fruits[last].radius;
+        const cherry = makeFruit(0, 400, 250 + radius + 60);
+        const world = makeWorld([makeFruit(last, 400 - radius + 2, 250), makeFruit(last, 400 + radius - 2, 250), cherry]);
+        world.endOfChain = rule;
+        const clears: ClearEvent[] = [];
+        world.on('clear', (clear: ClearEvent) => clears.push(clear));
+        const startY = cherry.y;
+        run(world, 0.5);
+
+        if (rule === 'keep') {
+            if (world.fruits.length !== 3 || clears.length > 0) return 'Watermelons were cleared';
+            return world.score === 0 ? null : `score is ${world.score}`;
+        }
+        if (world.fruits.length !== 1 || world.fruits[0] !== cherry) return `${world.fruits.length} fruits left instead of the cherry`;
+        if (world.watermelonClears !== 1 || clears.length !== 1) return `${world.watermelonClears} clears counted`;
+        if (clears[0].points <= 0 || world.score !== clears[0].points) return `score is ${world.score} for a ${clears[0].points} bonus`;
+        const pushed = cherry.y - startY;
+        if (rule === 'explode' && pushed < 10) return `cherry only pushed ${pushed.toFixed(1)}px by the explosion`;
+        if (rule === 'vanish' && Math.abs(pushed) > 1) return `cherry moved ${pushed.toFixed(1)}px without an explosion`;
+        return null;
+    };
+}
+
+/**
+ * Fruits rolling into pockets must leave the table: a small fruit scores its points, a large one costs double
+ */
+function pocketScenario(): string | null {
+    const world = makeWorld([makeFruit(0, 200, 200, -600, -600)]);
+    world.pockets = poolPockets(WIDTH, HEIGHT);
+    const pockets: PocketEvent[] = [];
+    world.on('pocket', (pocket: PocketEvent) => pockets.push(pocket));
+    run(world, 1);
+    const cherry = DEFAULT_THEME.fruits[0].score;
+    if (world.fruits.length > 0 || world.pocketed !== 1) return 'cherry was not pocketed';
+    if (pockets[0].points !== cherry || world.score !== cherry) return `pocketed cherry scored ${pockets[0].points}, score is ${world.score}`;
+
+    const large = Math.max(...DEFAULT_THEME.spawnRanks) + 1;
+    world.fruits.push(makeFruit(large, WIDTH - 200, HEIGHT - 200, 600, 600));
+    run(world, 1);
+    const penalty = -DEFAULT_THEME.fruits[large].score * 2;
+    if (world.fruits.length > 0 || pockets.length !== 2 || pockets[1].pocketed !== 2) return `${DEFAULT_THEME.fruits[large].name} was not pocketed`;
+    if (pockets[1].points !== penalty) return `pocketed ${DEFAULT_THEME.fruits[large].name} scored ${pockets[1].points}`;
+    return world.score === Math.max(0, cherry + penalty) ? null : `score is ${world.score}`;
+}
+
+/**
+ * The fill must measure the covered area: overlapping fruits count once, parts past the rails don't count
+ */
+function fillScenario(): string | null {
+    const cherry = DEFAULT_THEME.fruits[0];
+    const area = Math.PI * cherry.radius * cherry.radius / (WIDTH * HEIGHT) * 100;
+    const checks: { name: string, fruits: GameFruit[], expected: number }[] = [
+        { name: 'a cherry', fruits: [makeFruit(0, 400, 300)], expected: area },
+        { name: 'two stacked cherries', fruits: [makeFruit(0, 400, 300), makeFruit(0, 400, 300)], expected: area },
+        { name: 'a cherry on the rail', fruits: [makeFruit(0, 400, 0)], expected: area / 2 }
+    ];
+    for (const check of checks) {
+        const fill = makeWorld(check.fruits).calculateFillPercentage();
+        if (Math.abs(fill - check.expected) > check.expected * 0.02) {
+            return `${check.name} fills ${fill.toFixed(4)}% instead of ${check.expected.toFixed(4)}%`;
+        }
+    }
+    return null;
+}
+
+/**
+ * A table over the fill limit must count the danger period down, end the game once it runs out,
+ * and start over when the table gets back under the limit
+ */
+function dangerScenario(): string | null {
+    // A Watermelon covers the whole of a small table, asleep so the rails don't push it aside
+    const size = 160;
+    const world = new SuikaWorld(size, size, { seed: 1 });
+    world.reset(1);
+    const last = DEFAULT_THEME.fruits.length - 1;
+    world.fruits = [{ ...makeFruit(last, size / 2, size / 2), sleeping: true }];
+    if (world.calculateFillPercentage() < FILL_LIMIT) return `table only ${world.calculateFillPercentage().toFixed(1)}% full`;
+    const dangerTime = world.mode.dangerTime;
+
+    run(world, 1);
+    const remaining = world.remainingDanger();
+    if (remaining === null || Math.abs(remaining - (dangerTime - 1)) > 0.001) return `${remaining} s of danger left after 1 s`;
+
+    const watermelon = world.fruits[0];
+    world.fruits = [];
+    run(world, FIXED_TIMESTEP);
+    if (world.remainingDanger() !== null) return 'danger went on on an empty table';
+
+    world.fruits = [watermelon];
+    run(world, dangerTime - 0.5);
+    if (world.gameOver) return 'game ended before the danger period was over';
+    run(world, 1);
+    if (!world.gameOver || world.endReason !== 'fill') return `game did not end on the fill limit (${world.endReason})`;
+    return Math.abs(world.frame * FIXED_TIMESTEP - (1 + FIXED_TIMESTEP + dangerTime)) < 0.001 ? null
+        : `game ended at ${(world.frame * FIXED_TIMESTEP).toFixed(3)} s`;
+}
+
+/**
+ * In a hot-seat game, players must take turns and each merge must be credited to the player of the latest launch in it
+ * Fruits no launch touched go to the player of the latest launch
+ */
+function hotSeatScenario(): string | null {
+    const world = makeWorld([]);
+    world.players = 2;
+    world.reset(1);
+    if (world.currentPlayer() !== 0 || !world.launch({ x: 0, y: -100 }) || world.currentPlayer() !== 1) return 'players did not take turns';
+
+    const shotFruit = (shot: number, x: number): GameFruit => ({ ...makeFruit(0, x, 300), shot });
+    world.fruits = [shotFruit(0, 200), shotFruit(1, 220)];
+    run(world, 0.5);
+    run(world, COMBO_WINDOW + 0.5);
+    world.fruits.push(makeFruit(2, 600, 300), makeFruit(2, 620, 300));
+    run(world, 0.5);
+
+    const strawberry = DEFAULT_THEME.fruits[1].score;
+    const dekopon = DEFAULT_THEME.fruits[3].score;
+    const [first, second] = world.playerScores;
+    if (first !== dekopon || second !== strawberry) return `players scored ${first} and ${second}`;
+    return world.score === first + second ? null : `score is ${world.score}`;
+}
+
+/**
+ * A special item must take effect once on the fruit it touches, and be used up: a Bomb removes it,
+ * Ice freezes it for a while, Shrink makes it one rank smaller and a Rainbow merges with it
+ * A fruit out of reach must not be affected
+ */
+function specialScenario(kind: SpecialKind): () => string | null {
+    return () => {
+        const item: GameFruit = { ...makeFruit(0, 400, 300), ...specialType(kind, DEFAULT_THEME), typeIndex: -1 };
+        const typeIndex = kind === 'rainbow' ? 2 : 1;
+        const touched = makeFruit(typeIndex, 400 + item.radius + DEFAULT_THEME.fruits[typeIndex].radius - 2, 300);
+        const far = makeFruit(0, 100, 100);
+        const world = makeWorld([item, touched, far]);
+        const specials: SpecialEvent[] = [];
+        world.on('special', (special: SpecialEvent) => specials.push(special));
+        run(world, 0.5);
+
+        if (world.fruits.indexOf(item) >= 0) return `${kind} was not used up`;
+        if (specials.length !== 1 || specials[0].kind !== kind || specials[0].fruits !== 1) return `${specials.length} ${kind} events`;
+        if (world.fruits.indexOf(far) < 0 || far.frozen) return 'fruit out of reach was affected';
+        const others = world.fruits.filter((fruit: GameFruit) => fruit !== far);
+        switch (kind) {
+            case 'bomb':
+                return others.length === 0 ? null : 'touched fruit was not blown up';
+            case 'ice':
+                if (others[0] !== touched || !touched.frozen) return 'touched fruit was not frozen';
+                run(world, FREEZE_TIME);
+                return touched.frozen ? 'frozen fruit did not thaw' : null;
+            case 'shrink':
+                return others.length === 1 && others[0].typeIndex === typeIndex - 1 ? null : 'touched fruit did not shrink';
+            case 'rainbow':
+                if (others.length !== 1 || others[0].typeIndex !== typeIndex + 1) return 'rainbow did not merge with the touched fruit';
+                return world.score === DEFAULT_THEME.fruits[typeIndex + 1].score ? null : `score is ${world.score}`;
+        }
+    };
+}
+
+const scenarios: Scenario[] = [
+    { name: 'no tunnelling at full speed (default substeps)', run: tunnellingScenario({}) },
+    { name: 'no tunnelling at full speed (single substep, CCD only)', run: tunnellingScenario({ substeps: 1, maxSubsteps: 1 }) },
+    { name: 'no tunnelling through walls', run: wallScenario },
+    { name: 'no tunnelling through obstacles (single substep)', run: obstacleScenario },
+    { name: 'packed cluster comes to rest', run: stackAtRestScenario },
+    { name: 'resting cluster wakes up and settles again', run: wakeAndResettleScenario },
+    { name: 'quick merges chain into a combo', run: comboScenario },
+    { name: 'Watermelons stay with the keep rule', run: endOfChainScenario('keep') },
+    { name: 'Watermelons vanish for a bonus', run: endOfChainScenario('vanish') },
+    { name: 'Watermelons explode for a bonus, pushing fruits away', run: endOfChainScenario('explode') },
+    { name: 'pocketed fruits leave the table and score', run: pocketScenario },
+    { name: 'fill counts the covered area', run: fillScenario },
+    { name: 'overfilled table ends the game after the danger period', run: dangerScenario },
+    { name: 'hot-seat merges credit the right player', run: hotSeatScenario },
+    { name: 'Bomb removes the fruits in reach', run: specialScenario('bomb') },
+    { name: 'Ice freezes the fruits in reach for a while', run: specialScenario('ice') },
+    { name: 'Shrink makes a fruit one rank smaller', run: specialScenario('shrink') },
+    { name: 'Rainbow merges with any fruit', run: specialScenario('rainbow') }
+];
+
+let failures = 0;
+scenarios.forEach((scenario: Scenario) => {
+    const error = scenario.run();
+    if (error) failures++;
+    console.log(`${error ? 'FAIL' : 'PASS'} ${scenario.name}${error ? ` - ${error}` : ''}`);
+});
+if (failures > 0) {
+    throw new Error(`${failures} of ${scenarios.length} scenarios failed`);
+}
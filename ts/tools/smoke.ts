@@ -0,0 +1,219 @@
+import { FIXED_TIMESTEP, SuikaWorld, WORLD_HEIGHT, WORLD_WIDTH, WorldSnapshot, shotAim } from '../world.js';
+import { ReplayPlayer, ReplayRecorder, parseReplay } from '../replay.js';
+import { deserializeGame, serializeGame } from '../save.js';
+import { VersusMatch } from '../versus.js';
+import { LockstepSession, TURN_FRAMES, VersusMessage, parseVersusMessage } from '../lockstep.js';
+
+/**
+ * Smoke tests of whole headless games
+ * Plays seeded games in Node, without a browser, and checks they are deterministic
+ *
+ * Usage: node js/tools/smoke.js
+ */
+
+const SEED = 12345;
+const GAME_TIME = 60;       // Longest simulated game (seconds)
+
+/**
+ * Smoke test, returns an error message when the check fails
+ */
+interface SmokeTest {
+    name: string;
+    run: () => string | null;
+}
+
+/**
+ * Creates a world for a new seeded game
+ */
+function newGame(): SuikaWorld {
+    const world = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT, { seed: SEED });
+    world.reset(SEED);
+    return world;
+}
+
+/**
+ * Plays a world up to a frame, launching along a fixed pattern of aims whenever a fruit is ready
+ */
+function play(world: SuikaWorld, frames: number): void {
+    while (world.frame < frames && !world.gameOver) {
+        if (world.fruitToLaunch) {
+            const shot = world.shots;
+            world.launch(shotAim(-Math.PI / 2 + Math.sin(shot * 1.3) * 1.2, 0.5 + 0.4 * Math.abs(Math.cos(shot * 0.7))));
+        }
+        world.step();
+    }
+}
+
+/**
+ * Compact summary of a game state, equal for identical games
+ */
+function summary(world: SuikaWorld): string {
+    const snapshot: WorldSnapshot = world.snapshot();
+    return JSON.stringify({ frame: snapshot.frame, score: snapshot.score, gameOver: snapshot.gameOver, fruits: snapshot.fruits });
+}
+
+const frames = Math.round(GAME_TIME / FIXED_TIMESTEP);
+
+/**
+ * The same seed and launches must give the same game
+ */
+function deterministicGame(): string | null {
+    const first = newGame();
+    const second = newGame();
+    play(first, frames);
+    play(second, frames);
+    if (first.shots === 0) return 'no fruit was launched';
+    return summary(first) === summary(second) ? null : `games diverged (scores ${first.score} and ${second.score})`;
+}
+
+/**
+ * A game restored from a snapshot taken midway must continue like the original
+ */
+function restoredGame(): string | null {
+    const original = newGame();
+    play(original, frames / 2);
+    const restored = newGame();
+    restored.restore(JSON.parse(JSON.stringify(original.snapshot())));
+    play(original, frames);
+    play(restored, frames);
+    return summary(original) === summary(restored) ? null : `restored game diverged (scores ${original.score} and ${restored.score})`;
+}
+
+/**
+ * A recorded game played back from its replay file must end with the same score
+ */
+function replayedGame(): string | null {
+    const world = newGame();
+    const recorder = new ReplayRecorder(world);
+    play(world, frames);
+    const replay = parseReplay(JSON.stringify(recorder.toReplay()));
+
+    const playback = new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT);
+    const player = new ReplayPlayer(playback, replay);
+    while (playback.frame < world.frame && !playback.gameOver) {
+        player.advance();
+    }
+    return summary(playback) === summary(world) ? null : `replay diverged (scores ${world.score} and ${playback.score})`;
+}
+
+/**
+ * A saved game must load back into the same game, also from a save of an older version
+ */
+function savedGame(): string | null {
+    const original = newGame();
+    const recorder = new ReplayRecorder(original);
+    play(original, frames / 2);
+    const text = serializeGame(original.snapshot(), recorder.getLaunches());
+    const loaded = deserializeGame(text);
+    if (loaded.launches.length !== original.shots) return `save kept ${loaded.launches.length} of ${original.shots} launches`;
+    const restored = newGame();
+    restored.restore(loaded.world);
+    if (summary(restored) !== summary(original)) return 'loaded save differs from the saved game';
+
+    // Version 1 saves stored velocities in pixels per frame
+    const v1 = JSON.parse(text);
+    v1.version = 1;
+    v1.world.fruits.forEach((fruit: { vx: number, vy: number }) => {
+        fruit.vx /= 60;
+        fruit.vy /= 60;
+    });
+    const migrated = deserializeGame(JSON.stringify(v1)).world.fruits;
+    const drift = Math.max(0, ...migrated.map((fruit, index: number) =>
+        Math.abs(fruit.vx - original.fruits[index].vx) + Math.abs(fruit.vy - original.fruits[index].vy)));
+    return drift > 1e-6 ? `v1 save migrated with velocities off by ${drift}` : null;
+}
+
+/**
+ * Corrupt saves must be rejected with an error, never loaded
+ */
+function corruptSaves(): string | null {
+    const world = newGame();
+    play(world, frames / 4);
+    const text = serializeGame(world.snapshot(), []);
+    // Loosely typed, so fields can be given wrong values
+    type SaveData = { [key: string]: unknown, world: { [key: string]: unknown, fruits: { [key: string]: unknown }[] } };
+    const corruptions: { [name: string]: (save: SaveData) => void } = {
+        'newer version': (save) => save.version = 99,
+        'fruit list': (save) => save.world.fruits = [{}],
+        'random state': (save) => delete save.world.randomState,
+        'fruit position': (save) => save.world.fruits[0].x = 'left',
+        'fruit type': (save) => save.world.fruits[0].typeIndex = 99,
+        'player scores': (save) => save.world.playerScores = [1, 2],
+        'launch': (save) => save.launches = [[0, 1]]
+    };
+    for (const name of Object.keys(corruptions)) {
+        const save: SaveData = JSON.parse(text);
+        corruptions[name](save);
+        try {
+            deserializeGame(JSON.stringify(save));
+            return `save with a corrupt ${name} was loaded`;
+        } catch (e) {
+            // Expected
+        }
+    }
+    try {
+        deserializeGame(text.slice(0, -1));
+        return 'truncated save was loaded';
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Two lockstep clients relaying their messages to each other must play identical matches,
+ * and both must notice once one of them drifts apart
+ */
+function lockstepMatch(): string | null {
+    const sessions: LockstepSession[] = [0, 1].map((player: number) => {
+        const match = new VersusMatch(SEED, [
+            new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT, { seed: SEED }),
+            new SuikaWorld(WORLD_WIDTH, WORLD_HEIGHT, { seed: SEED })
+        ]);
+        // Messages go through JSON, like over the network
+        return new LockstepSession(match, player, (message: VersusMessage) =>
+            sessions[1 - player].receive(parseVersusMessage(JSON.stringify(message))));
+    });
+    const playTurns = (turns: number) => {
+        for (let frame = 0; frame < turns * TURN_FRAMES; frame++) {
+            sessions.forEach((session: LockstepSession) => {
+                const shot = session.match.tables[session.player].shots;
+                session.launch(shotAim(-Math.PI / 2 + Math.sin(shot * 1.3 + session.player) * 1.2, 0.6));
+                session.advance();
+            });
+        }
+    };
+
+    playTurns(Math.round(GAME_TIME / FIXED_TIMESTEP / TURN_FRAMES));
+    const [first, second] = sessions.map((session: LockstepSession) => session.match);
+    if (first.frame !== second.frame) return `clients at frames ${first.frame} and ${second.frame}`;
+    if (first.tables.every((table: SuikaWorld) => table.shots === 0)) return 'no fruit was launched';
+    if (first.hash() !== second.hash() || sessions.some((session: LockstepSession) => session.desyncTurn !== null)) {
+        return 'clients drifted apart';
+    }
+
+    // One client's table drifts, the next hash exchange must catch it
+    const fruits = second.tables[0].fruits;
+    if (fruits.length === 0) return 'nothing left on the table to move';
+    fruits[0].x += 10;
+    playTurns(20);
+    return sessions.every((session: LockstepSession) => session.desyncTurn !== null) ? null : 'desync went unnoticed';
+}
+
+const tests: SmokeTest[] = [
+    { name: 'seeded game is deterministic', run: deterministicGame },
+    { name: 'game restored from a snapshot continues identically', run: restoredGame },
+    { name: 'replayed game ends with the same score', run: replayedGame },
+    { name: 'saved game loads back, also from a v1 save', run: savedGame },
+    { name: 'corrupt saves are rejected', run: corruptSaves },
+    { name: 'lockstep clients stay in sync and detect a desync', run: lockstepMatch }
+];
+
+let failures = 0;
+tests.forEach((test: SmokeTest) => {
+    const error = test.run();
+    if (error) failures++;
+    console.log(`${error ? 'FAIL' : 'PASS'} ${test.name}${error ? ` - ${error}` : ''}`);
+});
+if (failures > 0) {
+    throw new Error(`${failures} of ${tests.length} smoke tests failed`);
+}
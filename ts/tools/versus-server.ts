@@ -0,0 +1,285 @@
+import { createServer, IncomingMessage } from 'http';
+import { Socket } from 'net';
+import { createHash } from 'crypto';
+import { VersusMessage, parseVersusMessage } from '../lockstep.js';
+
+/**
+ * Reference relay server for online versus matches
+ * Pairs the first two clients joining a room, hands them a shared seed, then relays their
+ * lockstep turns and state hashes to each other. It never simulates anything itself.
+ * Speaks just enough WebSocket (RFC 6455) for browsers: text frames, ping and close
+ *
+ * Usage: node js/tools/versus-server.js [port]   (8080 by default)
+ */
+
+const DEFAULT_PORT = 8080;
+
+// Largest message accepted from a client (bytes), turns and hashes are tiny
+const MAX_MESSAGE_SIZE = 64 * 1024;
+
+// Key mixed into the handshake, fixed by the WebSocket protocol
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// WebSocket frame opcodes
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xA;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Client connected over WebSocket
+ */
+class Client {
+    room: Room | null = null;
+    private buffer: Uint8Array = new Uint8Array(0);     // Received bytes not parsed yet
+    private fragments: Uint8Array[] = [];               // Parts of a fragmented text message
+    private closed: boolean = false;
+
+    constructor(private readonly socket: Socket, private readonly onMessage: (client: Client, text: string) => void) {
+        socket.on('data', (chunk: Uint8Array) => this.receive(chunk));
+        socket.on('close', () => this.close());
+        socket.on('error', () => this.close());
+    }
+
+    /**
+     * Sends a message as a text frame (server frames are not masked)
+     */
+    send(message: VersusMessage): void {
+        if (!this.closed) this.socket.write(encodeFrame(OPCODE_TEXT, encoder.encode(JSON.stringify(message))));
+    }
+
+    /**
+     * Closes the connection and leaves the room
+     */
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.socket.end(encodeFrame(OPCODE_CLOSE, new Uint8Array(0)));
+        if (this.room) this.room.leave(this);
+    }
+
+    /**
+     * Parses every complete frame received so far
+     */
+    receive(chunk: Uint8Array): void {
+        this.buffer = concat([this.buffer, chunk]);
+        for (;;) {
+            const frame = decodeFrame(this.buffer);
+            if (frame === null) return; // Incomplete, wait for more data
+            if (frame === 'invalid') {
+                this.close();
+                return;
+            }
+            this.buffer = this.buffer.subarray(frame.length);
+
+            switch (frame.opcode) {
+                case OPCODE_TEXT:
+                case OPCODE_CONTINUATION:
+                    this.fragments.push(frame.payload);
+                    if (this.fragments.reduce((size, part) => size + part.length, 0) > MAX_MESSAGE_SIZE) {
+                        this.close();
+                        return;
+                    }
+                    if (frame.fin) {
+                        const text = decoder.decode(concat(this.fragments));
+                        this.fragments = [];
+                        this.onMessage(this, text);
+                    }
+                    break;
+                case OPCODE_PING:
+                    this.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+                    break;
+                case OPCODE_CLOSE:
+                    this.close();
+                    return;
+                case OPCODE_PONG:
+                    break;
+                default:
+                    this.close(); // Binary frames are not part of the protocol
+                    return;
+            }
+        }
+    }
+}
+
+/**
+ * Room holding up to two clients, the match starts when the second one joins
+ */
+class Room {
+    readonly clients: Client[] = [];
+
+    constructor(readonly name: string, private readonly onEmpty: (room: Room) => void) {}
+
+    join(client: Client): void {
+        if (this.clients.length >= 2) {
+            client.send({ type: 'error', message: `Room "${this.name}" is full` });
+            return;
+        }
+        client.room = this;
+        this.clients.push(client);
+        if (this.clients.length === 2) {
+            const seed = Math.floor(Math.random() * 0x100000000);
+            this.clients.forEach((member: Client, player: number) => member.send({ type: 'start', seed, player }));
+        }
+    }
+
+    leave(client: Client): void {
+        const index = this.clients.indexOf(client);
+        if (index < 0) return;
+        this.clients.splice(index, 1);
+        client.room = null;
+        this.clients.forEach((member: Client) => member.send({ type: 'left' }));
+        if (this.clients.length === 0) this.onEmpty(this);
+    }
+
+    /**
+     * Passes a message on to the other client of the room
+     */
+    relay(from: Client, message: VersusMessage): void {
+        this.clients.forEach((member: Client) => {
+            if (member !== from) member.send(message);
+        });
+    }
+}
+
+/**
+ * WebSocket frame read from the stream
+ */
+interface Frame {
+    fin: boolean;
+    opcode: number;
+    payload: Uint8Array;    // Unmasked
+    length: number;         // Bytes taken by the whole frame
+}
+
+/**
+ * Reads one frame from the start of a buffer
+ * Returns null when the frame is not complete yet, 'invalid' for frames a client must not send
+ */
+function decodeFrame(buffer: Uint8Array): Frame | 'invalid' | null {
+    if (buffer.length < 2) return null;
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const masked = (buffer[1] & 0x80) !== 0;
+    if (!masked) return 'invalid'; // Client frames are always masked
+
+    let size = buffer[1] & 0x7F;
+    let offset = 2;
+    if (size === 126) {
+        if (buffer.length < 4) return null;
+        size = view.getUint16(2);
+        offset = 4;
+    } else if (size === 127) {
+        if (buffer.length < 10) return null;
+        if (view.getUint32(2) !== 0) return 'invalid';
+        size = view.getUint32(6);
+        offset = 10;
+    }
+    if (size > MAX_MESSAGE_SIZE) return 'invalid';
+    if (buffer.length < offset + 4 + size) return null;
+
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = buffer.slice(offset + 4, offset + 4 + size);
+    for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+    }
+    return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0F, payload, length: offset + 4 + size };
+}
+
+/**
+ * Builds a final, unmasked frame
+ */
+function encodeFrame(opcode: number, payload: Uint8Array): Uint8Array {
+    const headerSize = payload.length < 126 ? 2 : payload.length < 0x10000 ? 4 : 10;
+    const frame = new Uint8Array(headerSize + payload.length);
+    const view = new DataView(frame.buffer);
+    frame[0] = 0x80 | opcode;
+    if (headerSize === 2) {
+        frame[1] = payload.length;
+    } else if (headerSize === 4) {
+        frame[1] = 126;
+        view.setUint16(2, payload.length);
+    } else {
+        frame[1] = 127;
+        view.setUint32(6, payload.length);
+    }
+    frame.set(payload, headerSize);
+    return frame;
+}
+
+/**
+ * Joins byte arrays end to end
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    parts.forEach((part: Uint8Array) => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+}
+
+const rooms = new Map<string, Room>();
+
+/**
+ * Handles a message from a client: joins rooms and relays lockstep traffic
+ */
+function handleMessage(client: Client, text: string): void {
+    let message: VersusMessage;
+    try {
+        message = parseVersusMessage(text);
+    } catch (e) {
+        client.send({ type: 'error', message: (e as Error).message });
+        return;
+    }
+
+    if (message.type === 'join') {
+        if (client.room) {
+            client.send({ type: 'error', message: 'Already in a room' });
+            return;
+        }
+        let room = rooms.get(message.room);
+        if (!room) {
+            room = new Room(message.room, (empty: Room) => rooms.delete(empty.name));
+            rooms.set(message.room, room);
+        }
+        room.join(client);
+    } else if ((message.type === 'turn' || message.type === 'hash') && client.room) {
+        client.room.relay(client, message);
+    }
+}
+
+const port = process.argv[2] ? Number(process.argv[2]) : DEFAULT_PORT;
+const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This is the Suika Pool versus relay, connect with WebSocket\n');
+});
+
+// Accept WebSocket upgrades, every other request gets the plain text answer above
+server.on('upgrade', (request: IncomingMessage, socket: Socket, head: Uint8Array) => {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || request.headers['upgrade'] !== 'websocket') {
+        socket.destroy();
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(encoder.encode([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+    ].join('\r\n')));
+
+    const client = new Client(socket, handleMessage);
+    if (head.length > 0) client.receive(head); // Frames sent along with the handshake
+});
+
+server.listen(port, () => {
+    console.log(`Versus relay listening on ws://localhost:${port}`);
+});
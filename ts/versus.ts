@@ -0,0 +1,178 @@
+import { Mulberry32 } from './random.js';
+import { FIXED_TIMESTEP, MergeEvent, SuikaWorld } from './world.js';
+import { gameModes } from './modes.js';
+import { DEFAULT_THEME } from './themes.js';
+
+// Smallest merged rank that sends garbage, each rank above it sends one more cherry
+const GARBAGE_MIN_RANK = 5;
+
+// Delay between the merge and the garbage landing on the other table (seconds)
+const GARBAGE_DELAY = 1;
+
+// Speed (px/s) garbage enters the table at, from the top rail
+const GARBAGE_SPEED = 400;
+
+/**
+ * Events emitted by a versus match
+ */
+export interface VersusMatchEvents {
+    garbage: GarbageEvent;      // Cherries were sent to a table
+    end: VersusResult;          // One of the tables ended its game
+}
+
+/**
+ * Cherries sent to a table by a large merge on the other one
+ */
+export interface GarbageEvent {
+    to: number;         // Player receiving them
+    count: number;
+    dropFrame: number;  // Frame they land on
+}
+
+/**
+ * Outcome of a match
+ */
+export interface VersusResult {
+    winner: number | null;  // Player who won (null for a draw)
+    frame: number;
+}
+
+/**
+ * Garbage waiting to land on a table
+ */
+interface PendingGarbage {
+    count: number;
+    dropFrame: number;
+}
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Two-player versus match, one table per player, played on the same seed
+ * Large merges send garbage cherries onto the other table, the first table to fill up loses
+ * Fully deterministic: two clients stepping the same match with the same launches stay identical
+ */
+export class VersusMatch {
+    frame: number = 0;
+    result: VersusResult | null = null;     // Set once the match is over
+    private garbage: PendingGarbage[][] = [[], []];
+    private random: Mulberry32;             // Where garbage lands
+    private listeners: { [K in keyof VersusMatchEvents]?: Listener<VersusMatchEvents[K]>[] } = {};
+    private unsubscribe: (() => void)[];
+
+    constructor(readonly seed: number, readonly tables: [SuikaWorld, SuikaWorld]) {
+        this.random = new Mulberry32(seed ^ 0x5EED);
+        this.unsubscribe = tables.map((table: SuikaWorld, player: number) => {
+            // Both clients must play the exact same rules, whatever they picked for solo games
+            table.theme = DEFAULT_THEME;
+            table.mode = gameModes[0];
+            table.endOfChain = 'keep';
+            table.pockets = [];
+            table.level = null;
+            table.players = 1;
+            table.specialRate = 0;
+            table.reset(seed);
+            return table.on('merge', (merge: MergeEvent) => this.sendGarbage(1 - player, merge.rank));
+        });
+    }
+
+    /**
+     * Stops listening to the tables, so they can be reused for other games
+     */
+    dispose(): void {
+        this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    }
+
+    on<K extends keyof VersusMatchEvents>(type: K, listener: Listener<VersusMatchEvents[K]>): () => void {
+        const list = (this.listeners[type] || (this.listeners[type] = [])) as Listener<VersusMatchEvents[K]>[];
+        list.push(listener);
+        return () => {
+            const index = list.indexOf(listener);
+            if (index >= 0) list.splice(index, 1);
+        };
+    }
+
+    /**
+     * Advances both tables by one step, dropping the garbage due on this frame
+     */
+    step(): void {
+        if (this.result) return;
+        this.frame++;
+        this.tables.forEach((table: SuikaWorld, player: number) => {
+            this.dropGarbage(table, player);
+            table.step();
+        });
+
+        // The first table to end its game loses, a tie goes to the higher score
+        const ended = this.tables.map((table: SuikaWorld) => table.gameOver);
+        if (ended[0] || ended[1]) {
+            let winner: number | null = ended[0] ? 1 : 0;
+            if (ended[0] && ended[1]) {
+                const [score0, score1] = this.tables.map((table: SuikaWorld) => table.score);
+                winner = score0 === score1 ? null : score0 > score1 ? 0 : 1;
+            }
+            this.result = { winner, frame: this.frame };
+            this.emit('end', this.result);
+        }
+    }
+
+    /**
+     * Hash of the state of both tables, to detect clients drifting apart
+     * Positions are rounded so only real divergence changes it
+     */
+    hash(): number {
+        let hash = 0x811C9DC5; // FNV-1a
+        const mix = (value: number) => {
+            hash ^= value | 0;
+            hash = Math.imul(hash, 0x01000193);
+        };
+        mix(this.frame);
+        this.tables.forEach((table: SuikaWorld) => {
+            mix(table.score);
+            mix(table.fruits.length);
+            table.fruits.forEach((fruit) => {
+                mix(fruit.typeIndex);
+                mix(Math.round(fruit.x * 100));
+                mix(Math.round(fruit.y * 100));
+            });
+        });
+        return hash >>> 0;
+    }
+
+    /**
+     * Queues the garbage a merge sends to the other table
+     */
+    private sendGarbage(to: number, rank: number): void {
+        if (rank < GARBAGE_MIN_RANK || this.result) return;
+        const event: GarbageEvent = {
+            to,
+            count: rank - GARBAGE_MIN_RANK + 1,
+            dropFrame: this.frame + Math.round(GARBAGE_DELAY / FIXED_TIMESTEP)
+        };
+        this.garbage[to].push({ count: event.count, dropFrame: event.dropFrame });
+        this.emit('garbage', event);
+    }
+
+    /**
+     * Drops the cherries due on this frame in from the top rail, spread across the table
+     */
+    private dropGarbage(table: SuikaWorld, player: number): void {
+        const due = this.garbage[player].filter((garbage: PendingGarbage) => garbage.dropFrame <= this.frame);
+        if (due.length === 0) return;
+        this.garbage[player] = this.garbage[player].filter((garbage: PendingGarbage) => garbage.dropFrame > this.frame);
+
+        const cherry = table.theme.fruits[0];
+        due.forEach((garbage: PendingGarbage) => {
+            for (let i = 0; i < garbage.count; i++) {
+                const x = cherry.radius + this.random.next() * (table.width - 2 * cherry.radius);
+                table.dropFruit(0, x, cherry.radius, 0, GARBAGE_SPEED);
+            }
+        });
+    }
+
+    private emit<K extends keyof VersusMatchEvents>(type: K, payload: VersusMatchEvents[K]): void {
+        const list = this.listeners[type] as Listener<VersusMatchEvents[K]>[] | undefined;
+        if (!list) return;
+        list.slice().forEach((listener) => listener(payload));
+    }
+}
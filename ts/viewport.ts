@@ -0,0 +1,61 @@
+import { Position } from './fruits.js';
+
+/**
+ * Maps world units onto a canvas of any display size
+ * The canvas keeps the world's aspect ratio, its backing store is scaled by devicePixelRatio
+ * so drawing stays sharp, and the world is drawn in its own units through the context transform
+ */
+export class Viewport {
+    scale: number = 1;          // CSS pixels per world unit
+    pixelRatio: number = 1;     // Backing store pixels per world unit
+
+    constructor(
+        private readonly canvas: HTMLCanvasElement,
+        readonly worldWidth: number,
+        readonly worldHeight: number
+    ) {}
+
+    /**
+     * Sizes the canvas to the largest size fitting in the available CSS pixels, keeping the aspect ratio
+     * Returns whether the size changed (the canvas content is cleared when it does)
+     */
+    fit(availableWidth: number, availableHeight: number, dpr: number): boolean {
+        const scale = Math.max(Math.min(availableWidth / this.worldWidth, availableHeight / this.worldHeight), 0.01);
+        const cssWidth = Math.floor(this.worldWidth * scale);
+        const cssHeight = Math.floor(this.worldHeight * scale);
+        const width = Math.round(cssWidth * dpr);
+        const height = Math.round(cssHeight * dpr);
+        if (width === this.canvas.width && height === this.canvas.height && cssWidth / this.worldWidth === this.scale) {
+            return false;
+        }
+
+        this.canvas.style.width = cssWidth + 'px';
+        this.canvas.style.height = cssHeight + 'px';
+        this.canvas.width = width;
+        this.canvas.height = height;
+        this.scale = cssWidth / this.worldWidth;
+        this.pixelRatio = width / this.worldWidth;
+        return true;
+    }
+
+    /**
+     * Sets a context of the canvas up to draw in world units
+     */
+    apply(ctx: CanvasRenderingContext2D): void {
+        ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    }
+
+    /**
+     * Converts client coordinates (pointer events) to world coordinates
+     * Accounts for the canvas position, scroll offset, border and CSS size
+     */
+    toWorld(clientX: number, clientY: number): Position {
+        const rect = this.canvas.getBoundingClientRect();
+        const left = rect.left + this.canvas.clientLeft;
+        const top = rect.top + this.canvas.clientTop;
+        return {
+            x: (clientX - left) * (this.worldWidth / this.canvas.clientWidth),
+            y: (clientY - top) * (this.worldHeight / this.canvas.clientHeight)
+        };
+    }
+}
@@ -0,0 +1,1063 @@
+import { FruitType, GameFruit, QueuedFruit, Position } from './fruits.js';
+import { RandomFactory, RandomSource, createRandom, randomSeed } from './random.js';
+import { SpatialHash } from './spatial-hash.js';
+import { INERTIA_FACTOR, ImpactHandler, PhysicsOptions, PhysicsSolver } from './physics.js';
+import { ComboTracker, comboMultiplier } from './combo.js';
+import { DEFAULT_THEME, Theme } from './themes.js';
+import { GameMode, gameModes, getGameMode } from './modes.js';
+import { Pocket, findPocket } from './pockets.js';
+import { Obstacle } from './obstacles.js';
+import { Level, LevelFruit } from './levels.js';
+import { coveredArea } from './fill.js';
+import { BOMB_RADIUS, FREEZE_TIME, ICE_RADIUS, SPECIAL_KINDS, SpecialKind, specialType } from './specials.js';
+
+/**
+ * Payloads of the events emitted by the world
+ * Keyed by event name, used by renderers and HUDs to subscribe
+ */
+export interface SuikaWorldEvents {
+    reset: void;                 // World was cleared for a new game
+    launch: LaunchEvent;         // A fruit left the launcher
+    merge: MergeEvent;           // Two fruits merged into a new one
+    impact: ImpactEvent;         // A fruit hit another fruit, a rail or an obstacle hard enough to bounce
+    score: number;               // Score changed (new total)
+    combo: ComboEvent;           // Merge chain grew or ended
+    clear: ClearEvent;           // Two fruits of the last rank were cleared
+    pocket: PocketEvent;         // A fruit fell into a pocket
+    special: SpecialEvent;       // A special item took effect
+    nextfruit: QueuedFruit;      // A new fruit entered the queue
+    settle: void;                // All fruits came to rest after moving
+    restore: WorldSnapshot;      // World state was loaded from a snapshot
+    gameover: number;            // Game ended (final score)
+}
+
+/**
+ * Details of a merge, for scoring, HUD and effects
+ */
+export interface MergeEvent {
+    fruit: GameFruit;   // Fruit produced by the merge
+    rank: number;       // Rank of the produced fruit
+    x: number;          // Position of the merge
+    y: number;
+    frame: number;      // Step the merge happened in
+    time: number;       // Simulation time of the merge (seconds)
+    combo: number;      // Position in the current merge chain (1 = first merge)
+    multiplier: number; // Score multiplier given by the chain
+    points: number;     // Points awarded for this merge
+    player: number;     // Player the points went to
+}
+
+/**
+ * What happens when two fruits of the last rank (Watermelons) collide
+ * keep: they bounce off each other; vanish: both disappear for a big bonus;
+ * explode: both disappear and push nearby fruits away
+ */
+export type EndOfChainRule = 'keep' | 'vanish' | 'explode';
+
+/**
+ * Details of a Watermelon clear
+ */
+export interface ClearEvent {
+    rule: EndOfChainRule;
+    x: number;          // Position of the clear
+    y: number;
+    points: number;     // Bonus awarded
+    clears: number;     // Clears so far in this game
+    player: number;     // Player the bonus went to
+}
+
+/**
+ * Details of a fruit falling into a pocket
+ */
+export interface PocketEvent {
+    fruit: GameFruit;   // Fruit removed from the table
+    pocket: Pocket;     // Pocket it fell into
+    points: number;     // Points awarded (negative for a penalty)
+    pocketed: number;   // Fruits pocketed so far in this game
+    player: number;     // Player the points went to
+}
+
+/**
+ * Details of an impact, for sound effects
+ */
+export interface ImpactEvent {
+    x: number;          // Contact point
+    y: number;
+    speed: number;      // Closing speed (px/s)
+    wall: boolean;      // Whether the fruit hit a rail or an obstacle rather than a fruit
+}
+
+/**
+ * Details of a special item taking effect
+ */
+export interface SpecialEvent {
+    kind: SpecialKind;
+    x: number;          // Where it took effect
+    y: number;
+    fruits: number;     // Fruits it merged with, removed, froze or shrank
+    player: number;     // Player who launched it
+}
+
+/**
+ * Limit of the game mode that ended the game
+ */
+export type GameOverReason = 'fill' | 'time' | 'shots';
+
+/**
+ * State of the merge chain
+ */
+export interface ComboEvent {
+    count: number;      // Merges in the chain (0 once it ended)
+    multiplier: number; // Multiplier of the last merge in the chain
+}
+
+/**
+ * Serializable state of a single fruit
+ * The fruit type is stored by index, its properties come from the theme
+ */
+export interface FruitSnapshot {
+    typeIndex: number;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    angle: number;
+    spin?: number;        // Missing in saves made before spin, like a fruit rolling without spin
+    rollX?: number;
+    rollY?: number;
+    sleeping?: boolean;   // Missing in saves made before fruits could sleep
+    restTime?: number;
+    shot?: number;        // Missing in saves made before hot-seat games
+    special?: SpecialKind; // Special item (typeIndex is -1)
+    frozen?: number;
+}
+
+/**
+ * Serializable state of the whole world
+ * Restoring it continues the game exactly where it was, including the fruit sequence
+ */
+export interface WorldSnapshot {
+    frame: number;
+    seed: number;
+    randomState: number;                   // Internal PRNG state
+    score: number;
+    gameOver: boolean;
+    reloadAtFrame: number | null;          // Frame the next fruit gets ready (null when not reloading)
+    fruits: FruitSnapshot[];
+    fruitToLaunch: FruitSnapshot | null;
+    fruitInQueue: number;                  // Type index of the queued fruit
+    queuedSpecial?: SpecialKind;           // Special item in the queue (a fruit when missing)
+    comboCount?: number;                   // Merge chain (missing in saves made before combos)
+    comboLastTime?: number | null;
+    watermelonClears?: number;             // Missing in saves made before end-of-chain rules
+    endOfChain?: EndOfChainRule;
+    theme?: Theme;                         // Fruit set (the default theme when missing)
+    mode?: string;                         // Game mode id (classic when missing)
+    shots?: number;                        // Launches so far
+    pockets?: Pocket[];                    // Table pockets (none when missing)
+    pocketed?: number;
+    level?: Level | null;                  // Obstacles and launch position (bare table when missing)
+    dangerFrames?: number;                 // Steps spent over the fill limit so far
+    players?: number;                      // Hot-seat players (1 when missing)
+    playerScores?: number[];
+    specialRate?: number;                  // Share of special spawns (none when missing)
+}
+
+/**
+ * Details of a launch, enough to reproduce it on the same frame
+ */
+export interface LaunchEvent {
+    fruit: GameFruit;   // Launched fruit
+    frame: number;      // Frame the launch happened before
+    aim: Position;      // Aim vector from the fruit to the target point
+    offset: Position;   // Where the cue struck the fruit, in fractions of its radius (see launchSpin)
+}
+
+/**
+ * Optional settings of the world
+ */
+export interface SuikaWorldOptions {
+    seed?: number;                // Seed of the fruit sequence (random when omitted)
+    createRandom?: RandomFactory; // PRNG used for the fruit queue (Mulberry32 by default)
+    physics?: Partial<PhysicsOptions>; // Solver settings (substeps, iterations, sleeping)
+    endOfChain?: EndOfChainRule;  // Watermelon collision rule ('keep' by default)
+    theme?: Theme;                // Fruit set (DEFAULT_THEME by default)
+    mode?: GameMode;              // Rules ending the game (classic by default)
+    pockets?: Pocket[];           // Pockets in the rails (closed box by default)
+    level?: Level | null;         // Obstacles, starting fruits and launch position (bare table by default)
+    players?: number;             // Hot-seat players taking turns (1 by default)
+    specialRate?: number;         // Share of spawns that are special items (0 by default)
+}
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Game constants, in per-second units so the simulation does not depend on the display rate
+ */
+export const WORLD_WIDTH = 800;           // Table size in world units, the "px" of the constants below,
+export const WORLD_HEIGHT = 600;          // independent of the size the table is displayed at
+export const FIXED_TIMESTEP = 1 / 60;     // Duration of one simulation step (seconds)
+export const LAUNCH_SPEED_PER_PIXEL = 6;  // Launch speed (px/s) per pixel of aim distance
+export const MAX_LAUNCH_SPEED = 1800;     // Launch speed cap (px/s)
+export const MAX_CUE_OFFSET = 0.5;        // Furthest the cue strikes from the fruit's center (fraction of its radius)
+const SWERVE = 0.4;                       // Sideways roll per unit of side offset, curves side spin shots
+const WATERMELON_CLEAR_BONUS = 100;      // Points for clearing two Watermelons
+const EXPLOSION_RADIUS = 250;             // Reach of a Watermelon explosion (px)
+const EXPLOSION_SPEED = 900;              // Speed (px/s) given to fruits at the center of an explosion
+const RELOAD_TIME = 1;                    // Delay after a launch before the next fruit is ready (seconds)
+const SETTLE_SPEED = 3;                   // Speed (px/s) under which a fruit is considered at rest
+const POCKET_PENALTY = 2;                 // Score multiplier of the points lost by pocketing a large fruit
+export const MAX_PLAYERS = 4;             // Most players a hot-seat game takes
+export const FILL_LIMIT = 90;             // Percentage of the table covered by fruits that puts it in danger
+
+// Steps to wait after a launch before the next fruit is ready
+const RELOAD_STEPS = Math.round(RELOAD_TIME / FIXED_TIMESTEP);
+
+// Aim vector length giving the fastest launch
+export const MAX_AIM_DISTANCE = MAX_LAUNCH_SPEED / LAUNCH_SPEED_PER_PIXEL;
+
+/**
+ * Aim vector of a launch at an angle (radians), power in [0, 1] of the fastest launch
+ */
+export function shotAim(angle: number, power: number): Position {
+    const distance = Math.max(0, Math.min(power, 1)) * MAX_AIM_DISTANCE;
+    return { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance };
+}
+
+/**
+ * Initial velocity of a fruit launched along an aim vector
+ * Speed is proportional to the vector length, capped at MAX_LAUNCH_SPEED
+ */
+export function launchVelocity(aim: Position): Position {
+    const distance = Math.sqrt(aim.x * aim.x + aim.y * aim.y);
+    const speed = Math.min(distance * LAUNCH_SPEED_PER_PIXEL, MAX_LAUNCH_SPEED);
+    const angle = Math.atan2(aim.y, aim.x);
+    return { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+}
+
+/**
+ * Cue offset kept within MAX_CUE_OFFSET of the fruit's center
+ */
+export function clampCueOffset(offset: Position): Position {
+    const distance = Math.sqrt(offset.x * offset.x + offset.y * offset.y);
+    if (distance <= MAX_CUE_OFFSET) return { x: offset.x, y: offset.y };
+    return { x: offset.x * MAX_CUE_OFFSET / distance, y: offset.y * MAX_CUE_OFFSET / distance };
+}
+
+/**
+ * Spin of a fruit struck off-center and launched at the given velocity
+ * The cue offset is in fractions of the radius: x to the right of the shot for side spin,
+ * y above the center for top spin (positive) or below it for back spin (negative)
+ */
+export function launchSpin(velocity: Position, offset: Position, radius: number): { spin: number, rollX: number, rollY: number } {
+    const cue = clampCueOffset(offset);
+    const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+    if (speed === 0) return { spin: 0, rollX: 0, rollY: 0 };
+
+    // A ball struck at height h rolls at v h / (k r), k being its inertia factor: a center hit slides
+    const ux = velocity.x / speed;
+    const uy = velocity.y / speed;
+    const roll = speed * cue.y / INERTIA_FACTOR;
+    const swerve = speed * cue.x * SWERVE; // A side hit also tilts the spin axis, rolling the fruit sideways
+    return {
+        spin: -speed * cue.x / (INERTIA_FACTOR * radius),
+        rollX: ux * roll - uy * swerve,
+        rollY: uy * roll + ux * swerve
+    };
+}
+
+/**
+ * Headless Suika Pool simulation
+ * Owns the game state and the launch/step/merge/game-over rules,
+ * without any dependency on the DOM
+ */
+export class SuikaWorld {
+    score: number = 0;                       // Current player score
+    gameOver: boolean = false;               // Game over flag
+    fruits: GameFruit[] = [];                // Array of all fruits in the game
+    fruitToLaunch: GameFruit | null = null;  // Fruit ready to be launched (null when none)
+    fruitInQueue: QueuedFruit;               // Next fruit waiting in queue
+
+    frame: number = 0;                       // Number of steps simulated so far
+    seed: number;                            // Seed of the current fruit sequence
+    endOfChain: EndOfChainRule;              // What two colliding Watermelons do
+    theme: Theme;                            // Fruit set, only change it between games
+    mode: GameMode;                          // Rules ending the game, only change it between games
+    shots: number = 0;                       // Launches in this game
+    endReason: GameOverReason | null = null; // Limit that ended the game (null while playing)
+    pockets: Pocket[];                       // Pockets in the rails, only change them between games
+    pocketed: number = 0;                    // Fruits pocketed in this game
+    level: Level | null;                     // Layout of the table, only change it between games
+    obstacles: Obstacle[] = [];              // Static obstacles of the level in play
+    watermelonClears: number = 0;            // Watermelon pairs cleared in this game
+    dangerFrames: number = 0;                // Steps in a row the table has been over the fill limit
+    players: number;                         // Hot-seat players taking turns, only change it between games
+    playerScores: number[] = [0];            // Score of each player, they add up to score
+    specialRate: number;                     // Share of spawns that are special items, only change it between games
+
+    private random: RandomSource;
+    private readonly createRandom: RandomFactory;
+    private reloadAtFrame: number | null = null;
+    private moving: boolean = false;         // Whether any fruit was moving on the last step
+    private combo: ComboTracker = new ComboTracker();
+    private solver: PhysicsSolver;           // Moves fruits and resolves their collisions
+    readonly physics: PhysicsOptions;        // Solver settings in use
+    private grid: SpatialHash;               // Broad phase for overlap queries
+    private gridDirty: boolean = true;       // Whether fruits moved since the grid was built
+    private candidates: number[] = [];       // Reused buffer for grid queries
+    private fill: number | null = null;      // Fill percentage, null when fruits changed since it was measured
+    private triggered: GameFruit[] = [];     // Bombs and Ice fruits that touched a fruit during the step
+    private listeners: { [K in keyof SuikaWorldEvents]?: Listener<SuikaWorldEvents[K]>[] } = {};
+
+    // Reports the solver's impacts as events
+    private readonly emitImpact: ImpactHandler = (x: number, y: number, speed: number, wall: boolean) => {
+        this.emit('impact', { x, y, speed, wall });
+    };
+
+    constructor(readonly width: number, readonly height: number, options: SuikaWorldOptions = {}) {
+        this.grid = new SpatialHash(width, height);
+        this.theme = options.theme || DEFAULT_THEME;
+        this.solver = new PhysicsSolver(this, this.theme.fruits[0].radius, options.physics, this.emitImpact);
+        this.physics = this.solver.options;
+        this.endOfChain = options.endOfChain || 'keep';
+        this.mode = options.mode || gameModes[0];
+        this.pockets = options.pockets || [];
+        this.level = options.level || null;
+        this.players = options.players || 1;
+        this.specialRate = options.specialRate || 0;
+        this.createRandom = options.createRandom || createRandom;
+        this.seed = options.seed !== undefined ? options.seed >>> 0 : randomSeed();
+        this.random = this.createRandom(this.seed);
+        this.fruitInQueue = this.generateRandomFruit();
+    }
+
+    /**
+     * Subscribes to a world event
+     * Returns a function that removes the listener
+     */
+    on<K extends keyof SuikaWorldEvents>(type: K, listener: Listener<SuikaWorldEvents[K]>): () => void {
+        const list = (this.listeners[type] || (this.listeners[type] = [])) as Listener<SuikaWorldEvents[K]>[];
+        list.push(listener);
+        return () => {
+            const index = list.indexOf(listener);
+            if (index >= 0) list.splice(index, 1);
+        };
+    }
+
+    private emit<K extends keyof SuikaWorldEvents>(type: K, payload: SuikaWorldEvents[K]): void {
+        const list = this.listeners[type] as Listener<SuikaWorldEvents[K]>[] | undefined;
+        if (!list) return;
+        list.slice().forEach((listener) => listener(payload));
+    }
+
+    /**
+     * Resets the world for a new game
+     * Clears all fruits, score and queue, then prepares the first launch
+     * The same seed always produces the same fruit sequence
+     */
+    reset(seed: number = randomSeed()): void {
+        this.applyTheme();
+        this.seed = seed >>> 0;
+        this.random = this.createRandom(this.seed);
+        this.reloadAtFrame = null;
+        this.moving = false;
+        this.frame = 0;
+        this.score = 0;
+        this.playerScores = new Array(this.players).fill(0);
+        this.watermelonClears = 0;
+        this.shots = 0;
+        this.pocketed = 0;
+        this.combo.reset();
+        this.gameOver = false;
+        this.endReason = null;
+        this.dangerFrames = 0;
+        this.obstacles = this.level ? this.level.obstacles : [];
+        this.fruits = this.level ? this.level.fruits.map((fruit: LevelFruit) => this.levelFruit(fruit)) : [];
+        this.gridDirty = true;
+        this.fill = null;
+        this.fruitToLaunch = null;
+        this.fruitInQueue = this.generateRandomFruit();
+        this.emit('reset', undefined);
+        this.emit('score', this.score);
+        this.emit('combo', { count: 0, multiplier: 1 });
+        this.prepareNextFruit();
+    }
+
+    /**
+     * Drops a fruit onto the table from outside the launcher, e.g. versus garbage
+     * Returns the fruit added
+     */
+    dropFruit(typeIndex: number, x: number, y: number, vx: number, vy: number): GameFruit {
+        const fruit: GameFruit = { ...this.levelFruit({ typeIndex, x, y }), vx, vy };
+        this.fruits.push(fruit);
+        this.gridDirty = true;
+        this.fill = null;
+        return fruit;
+    }
+
+    /**
+     * Launches the fruit along an aim vector (target point relative to the fruit)
+     * Speed is proportional to the vector length, capped at MAX_LAUNCH_SPEED
+     * The cue offset puts spin on the fruit, see launchSpin
+     * Returns false when there is no fruit ready to be launched
+     */
+    launch(aim: Position, offset: Position = { x: 0, y: 0 }): boolean {
+        const fruit = this.fruitToLaunch;
+        if (!fruit || this.gameOver) return false;
+
+        // Set initial velocity and spin
+        const velocity = launchVelocity(aim);
+        const cue = clampCueOffset(offset);
+        const spin = launchSpin(velocity, cue, fruit.radius);
+        fruit.vx = velocity.x;
+        fruit.vy = velocity.y;
+        fruit.spin = spin.spin;
+        fruit.rollX = spin.rollX;
+        fruit.rollY = spin.rollY;
+
+        // Add to game world and clear launch fruit, the launch is credited to the player whose turn it is
+        fruit.shot = this.shots;
+        this.fruits.push(fruit);
+        this.gridDirty = true;
+        this.fill = null;
+        this.fruitToLaunch = null; // Prevent launching another fruit
+        this.shots++;
+        this.emit('launch', { fruit, frame: this.frame, aim: { x: aim.x, y: aim.y }, offset: cue });
+
+        // Prepare next fruit after a delay, unless that was the last shot
+        const remainingShots = this.remainingShots();
+        this.reloadAtFrame = remainingShots === null || remainingShots > 0 ? this.frame + RELOAD_STEPS : null;
+        return true;
+    }
+
+    /**
+     * Launches the fruit towards a target point in world coordinates
+     */
+    launchTowards(target: Position, offset?: Position): boolean {
+        if (!this.fruitToLaunch) return false;
+        return this.launch({ x: target.x - this.fruitToLaunch.x, y: target.y - this.fruitToLaunch.y }, offset);
+    }
+
+    /**
+     * Readies the next fruit now instead of at the end of the reload delay
+     * For headless games, where the delay only paces a human player; their launches can't be replayed
+     * Returns false when no fruit is being reloaded
+     */
+    skipReload(): boolean {
+        if (this.reloadAtFrame === null || this.gameOver) return false;
+        this.reloadAtFrame = null;
+        this.prepareNextFruit();
+        return true;
+    }
+
+    /**
+     * Advances the simulation by one fixed step (FIXED_TIMESTEP seconds)
+     * Updates physics, reloads the launcher, then checks the game over condition
+     */
+    step(): void {
+        if (this.gameOver) return;
+
+        this.frame++;
+        this.thaw();
+        this.update();
+
+        // End the merge chain once its window has passed
+        if (this.combo.expire(this.frame * FIXED_TIMESTEP)) {
+            this.emit('combo', { count: 0, multiplier: 1 });
+        }
+
+        if (this.reloadAtFrame !== null && this.frame >= this.reloadAtFrame) {
+            this.reloadAtFrame = null;
+            this.prepareNextFruit();
+        }
+
+        // Detect the moment the table comes to rest
+        const moving = this.fruits.some((fruit: GameFruit) =>
+            fruit.vx * fruit.vx + fruit.vy * fruit.vy > SETTLE_SPEED * SETTLE_SPEED);
+        if (this.moving && !moving) {
+            this.emit('settle', undefined);
+        }
+        this.moving = moving;
+
+        // End the game once a limit of the mode is reached
+        const reason = this.checkLimits();
+        if (reason) {
+            this.gameOver = true;
+            this.endReason = reason;
+            this.emit('gameover', this.score);
+        }
+    }
+
+    /**
+     * Returns the limit of the game mode reached on this step, if any
+     */
+    private checkLimits(): GameOverReason | null {
+        // Over the fill limit for the whole danger period, a merge in progress may still free room
+        // The covered area is only measured once the summed fruit areas could reach the limit
+        if (this.mode.fillLimit && this.summedAreaPercentage() >= FILL_LIMIT && this.calculateFillPercentage() >= FILL_LIMIT) {
+            this.dangerFrames++;
+            if (this.dangerFrames * FIXED_TIMESTEP >= this.mode.dangerTime) return 'fill';
+        } else {
+            this.dangerFrames = 0;
+        }
+        const remainingTime = this.remainingTime();
+        if (remainingTime !== null && remainingTime <= 0) return 'time';
+        // Out of shots, once the last one came to rest
+        if (this.remainingShots() === 0 && !this.moving) return 'shots';
+        return null;
+    }
+
+    /**
+     * Player whose turn it is to launch
+     */
+    currentPlayer(): number {
+        return this.shots % this.players;
+    }
+
+    /**
+     * Player credited for what a fruit does: the one who launched it, or whose launch is
+     * the latest one among the fruits it merged from
+     * Fruits no launch has touched yet are credited to the player of the latest launch
+     */
+    playerOf(fruit: GameFruit): number {
+        const shot = fruit.shot >= 0 ? fruit.shot : Math.max(this.shots - 1, 0);
+        return shot % this.players;
+    }
+
+    /**
+     * Adds points to a player and the total score, a player's score never goes below 0
+     */
+    private award(player: number, points: number): void {
+        const playerScore = Math.max(0, this.playerScores[player] + points);
+        this.score += playerScore - this.playerScores[player];
+        this.playerScores[player] = playerScore;
+        this.emit('score', this.score);
+    }
+
+    /**
+     * Simulated seconds left before an overfilled table ends the game (null while under the fill limit)
+     */
+    remainingDanger(): number | null {
+        if (this.dangerFrames === 0) return null;
+        return Math.max(0, this.mode.dangerTime - this.dangerFrames * FIXED_TIMESTEP);
+    }
+
+    /**
+     * Simulated seconds left before the time limit (null when the mode has none)
+     */
+    remainingTime(): number | null {
+        if (this.mode.timeLimit === null) return null;
+        return Math.max(0, this.mode.timeLimit - this.frame * FIXED_TIMESTEP);
+    }
+
+    /**
+     * Launches left (null when the mode has no shot limit)
+     */
+    remainingShots(): number | null {
+        if (this.mode.shotLimit === null) return null;
+        return Math.max(0, this.mode.shotLimit - this.shots);
+    }
+
+    /**
+     * Captures the full game state
+     */
+    snapshot(): WorldSnapshot {
+        const fruitSnapshot = (fruit: GameFruit): FruitSnapshot => ({
+            typeIndex: fruit.typeIndex,
+            x: fruit.x,
+            y: fruit.y,
+            vx: fruit.vx,
+            vy: fruit.vy,
+            angle: fruit.angle,
+            spin: fruit.spin,
+            rollX: fruit.rollX,
+            rollY: fruit.rollY,
+            sleeping: fruit.sleeping,
+            restTime: fruit.restTime,
+            shot: fruit.shot,
+            special: fruit.special,
+            frozen: fruit.frozen
+        });
+        return {
+            frame: this.frame,
+            seed: this.seed,
+            randomState: this.random.getState(),
+            score: this.score,
+            gameOver: this.gameOver,
+            reloadAtFrame: this.reloadAtFrame,
+            fruits: this.fruits.map(fruitSnapshot),
+            fruitToLaunch: this.fruitToLaunch ? fruitSnapshot(this.fruitToLaunch) : null,
+            fruitInQueue: this.fruitInQueue.typeIndex,
+            queuedSpecial: this.fruitInQueue.special,
+            comboCount: this.combo.count,
+            comboLastTime: this.combo.lastTime,
+            watermelonClears: this.watermelonClears,
+            endOfChain: this.endOfChain,
+            theme: this.theme,
+            mode: this.mode.id,
+            shots: this.shots,
+            pockets: this.pockets,
+            pocketed: this.pocketed,
+            level: this.level,
+            dangerFrames: this.dangerFrames,
+            players: this.players,
+            playerScores: this.playerScores.slice(),
+            specialRate: this.specialRate
+        };
+    }
+
+    /**
+     * Replaces the game state with a previously captured snapshot
+     */
+    restore(snapshot: WorldSnapshot): void {
+        this.theme = snapshot.theme || DEFAULT_THEME;
+        this.applyTheme();
+        const gameFruit = (fruit: FruitSnapshot): GameFruit => ({
+            ...this.fruitType(fruit.typeIndex, fruit.special),
+            typeIndex: fruit.typeIndex,
+            x: fruit.x,
+            y: fruit.y,
+            vx: fruit.vx,
+            vy: fruit.vy,
+            angle: fruit.angle,
+            spin: fruit.spin || 0,
+            rollX: fruit.rollX !== undefined ? fruit.rollX : fruit.vx,
+            rollY: fruit.rollY !== undefined ? fruit.rollY : fruit.vy,
+            sleeping: fruit.sleeping || false,
+            restTime: fruit.restTime || 0,
+            shot: fruit.shot !== undefined ? fruit.shot : -1,
+            frozen: fruit.frozen
+        });
+        this.frame = snapshot.frame;
+        this.seed = snapshot.seed;
+        this.random = this.createRandom(snapshot.seed);
+        this.random.setState(snapshot.randomState);
+        this.score = snapshot.score;
+        this.players = snapshot.players || 1;
+        this.playerScores = snapshot.playerScores ? snapshot.playerScores.slice() : [snapshot.score];
+        this.gameOver = snapshot.gameOver;
+        this.reloadAtFrame = snapshot.reloadAtFrame;
+        this.fruits = snapshot.fruits.map(gameFruit);
+        this.gridDirty = true;
+        this.fill = null;
+        this.fruitToLaunch = snapshot.fruitToLaunch ? gameFruit(snapshot.fruitToLaunch) : null;
+        this.fruitInQueue = { ...this.fruitType(snapshot.fruitInQueue, snapshot.queuedSpecial), typeIndex: snapshot.fruitInQueue };
+        this.watermelonClears = snapshot.watermelonClears || 0;
+        this.endOfChain = snapshot.endOfChain || 'keep';
+        this.mode = getGameMode(snapshot.mode || '');
+        this.shots = snapshot.shots || 0;
+        this.pockets = snapshot.pockets || [];
+        this.pocketed = snapshot.pocketed || 0;
+        this.level = snapshot.level || null;
+        this.specialRate = snapshot.specialRate || 0;
+        this.obstacles = this.level ? this.level.obstacles : [];
+        this.endReason = null;
+        this.dangerFrames = snapshot.dangerFrames || 0;
+        this.combo.count = snapshot.comboCount || 0;
+        this.combo.lastTime = snapshot.comboLastTime !== undefined ? snapshot.comboLastTime : null;
+        this.moving = false;
+        this.emit('restore', snapshot);
+        this.emit('score', this.score);
+        this.emit('combo', { count: this.combo.count, multiplier: comboMultiplier(this.combo.count) });
+        this.emit('nextfruit', this.fruitInQueue);
+    }
+
+    /**
+     * Checks if a fruit at the given position would overlap with existing fruits
+     * Used for spawning new fruits in non-overlapping positions
+     */
+    isOverlapping(x: number, y: number, radius: number): boolean {
+        const candidates = this.queryFruits(x, y, radius);
+        for (let k = 0; k < candidates.length; k++) {
+            const fruit = this.fruits[candidates[k]];
+            const dx = x - fruit.x;
+            const dy = y - fruit.y;
+            const minDistance = radius + fruit.radius;
+            if (dx * dx + dy * dy < minDistance * minDistance) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Returns the indices of fruits that may touch the given circle
+     * Rebuilds the broad phase grid first if fruits moved since the last query
+     */
+    private queryFruits(x: number, y: number, radius: number): number[] {
+        if (this.gridDirty) {
+            this.grid.build(this.fruits);
+            this.gridDirty = false;
+        }
+        return this.grid.query(x, y, radius, this.candidates);
+    }
+
+    /**
+     * Creates a starting fruit of the level, at rest
+     */
+    private levelFruit(fruit: LevelFruit): GameFruit {
+        const typeIndex = Math.min(fruit.typeIndex, this.theme.fruits.length - 1);
+        return {
+            ...this.theme.fruits[typeIndex],
+            typeIndex,
+            x: fruit.x,
+            y: fruit.y,
+            vx: 0,
+            vy: 0,
+            angle: 0,
+            spin: 0,
+            rollX: 0,
+            rollY: 0,
+            sleeping: false,
+            restTime: 0,
+            shot: -1
+        };
+    }
+
+    /**
+     * Type of a fruit of the chain, or of a special item
+     */
+    private fruitType(typeIndex: number, special?: SpecialKind): FruitType {
+        return special ? specialType(special, this.theme) : this.theme.fruits[typeIndex];
+    }
+
+    /**
+     * Generates a random fruit among the spawnable ranks of the theme
+     * These are the only fruits that can be spawned initially, apart from special items
+     */
+    generateRandomFruit(): QueuedFruit {
+        // Specials replace a share of the spawns, without them the fruit sequence is the same as before
+        if (this.specialRate > 0 && this.random.next() < this.specialRate) {
+            const kind = SPECIAL_KINDS[Math.floor(this.random.next() * SPECIAL_KINDS.length)];
+            return { ...specialType(kind, this.theme), typeIndex: -1 };
+        }
+        const spawnRanks = this.theme.spawnRanks;
+        const typeIndex = spawnRanks[Math.floor(this.random.next() * spawnRanks.length)];
+        return { ...this.theme.fruits[typeIndex], typeIndex: typeIndex };
+    }
+
+    /**
+     * Calculates the percentage of world area covered by fruits
+     * Overlaps count once and parts pushed past the rails don't count, measured once per change
+     * Used for the fill gauge and game over condition
+     */
+    calculateFillPercentage(): number {
+        if (this.fill === null) {
+            this.fill = Math.min(coveredArea(this.fruits, this.width, this.height) / (this.width * this.height) * 100, 100);
+        }
+        return this.fill;
+    }
+
+    /**
+     * Summed area of the fruits as a percentage of the world, an upper bound of the covered area
+     */
+    private summedAreaPercentage(): number {
+        let area = 0;
+        this.fruits.forEach((fruit: GameFruit) => {
+            area += Math.PI * fruit.radius * fruit.radius;
+        });
+        return area / (this.width * this.height) * 100;
+    }
+
+    /**
+     * Prepares the next fruit to be launched
+     * Places it at the launch position of the level (bottom of the world by default),
+     * finding a non-overlapping position
+     */
+    prepareNextFruit(): void {
+        if (this.gameOver) return;
+
+        // Get the next fruit from queue and generate a new one for the queue
+        const newFruitType: QueuedFruit = this.fruitInQueue;
+        this.fruitInQueue = this.generateRandomFruit();
+
+        const radius = newFruitType.radius;
+        const launch = this.level && this.level.launch;
+        const y = launch ? launch.y : this.height - 50; // Position near bottom of the world
+        let x = launch ? launch.x : this.width / 2; // Start at center
+
+        // Find a non-overlapping position if center is occupied
+        if (this.isOverlapping(x, y, radius)) {
+            let searchOffset = 5; // Start searching 5px away
+            while (true) {
+                // Check right side
+                let rightX = x + searchOffset;
+                if (rightX + radius < this.width && !this.isOverlapping(rightX, y, radius)) {
+                    x = rightX;
+                    break;
+                }
+                // Check left side
+                let leftX = x - searchOffset;
+                if (leftX - radius > 0 && !this.isOverlapping(leftX, y, radius)) {
+                    x = leftX;
+                    break;
+                }
+                searchOffset += 5; // search in 5px steps
+                if (x - searchOffset < 0 && x + searchOffset > this.width) {
+                    // No space found, just spawn in the middle and let it overlap
+                    break;
+                }
+            }
+        }
+
+        // Create the fruit to be launched with calculated position
+        this.fruitToLaunch = {
+            ...newFruitType,
+            x,
+            y,
+            vx: 0,  // No initial velocity
+            vy: 0,  // No initial velocity
+            angle: 0, // No initial rotation
+            spin: 0,
+            rollX: 0,
+            rollY: 0,
+            sleeping: false,
+            restTime: 0,
+            shot: -1
+        };
+        this.emit('nextfruit', this.fruitInQueue);
+    }
+
+    /**
+     * Sets the solver up for the fruit sizes of the current theme
+     */
+    private applyTheme(): void {
+        this.solver = new PhysicsSolver(this, this.theme.fruits[0].radius, this.physics, this.emitImpact);
+    }
+
+    /**
+     * Updates all game objects and physics
+     * The solver handles movement, collisions and wall bounces, the world decides on merges
+     */
+    private update(): void {
+        this.fruits = this.solver.step(this.fruits, FIXED_TIMESTEP,
+            (f1, f2, fruits) => this.handleContact(f1, f2, fruits));
+        this.setOffSpecials();
+        if (this.pockets.length > 0) {
+            this.fruits = this.fruits.filter((fruit: GameFruit) => !this.sinkFruit(fruit));
+        }
+        this.gridDirty = true;
+        this.fill = null;
+    }
+
+    /**
+     * Removes a fruit that fell into a pocket and scores it
+     * Returns false when the fruit is not in a pocket
+     */
+    private sinkFruit(fruit: GameFruit): boolean {
+        const pocket = findPocket(fruit, this.pockets, this.width, this.height);
+        if (!pocket) return false;
+
+        // Pocketing the small spawnable fruits clears the table, losing a larger one costs points
+        const largestSpawn = Math.max(...this.theme.spawnRanks);
+        const points = fruit.typeIndex <= largestSpawn ? fruit.score : -fruit.score * POCKET_PENALTY;
+        const player = this.playerOf(fruit);
+        this.pocketed++;
+        this.emit('pocket', { fruit, pocket, points, pocketed: this.pocketed, player });
+        this.award(player, points);
+        return true;
+    }
+
+    /**
+     * Applies the game rules to two touching fruits
+     * Returns the fruits replacing them, or null when both stay
+     */
+    private handleContact(f1: GameFruit, f2: GameFruit, fruits: GameFruit[]): GameFruit[] | null {
+        if (f1.special || f2.special) return this.specialContact(f1, f2, fruits);
+        if (f1.typeIndex !== f2.typeIndex) return null;
+        if (f1.typeIndex < this.theme.fruits.length - 1) return [this.mergeFruits(f1, f2)];
+        return this.clearWatermelons(f1, f2, fruits);
+    }
+
+    /**
+     * Applies the effect of a special item touching another fruit
+     * Returns the fruits replacing both, or null when both stay
+     */
+    private specialContact(f1: GameFruit, f2: GameFruit, fruits: GameFruit[]): GameFruit[] | null {
+        // Bombs and Ice go off after the step, when the whole table is in reach
+        [f1, f2].forEach((fruit: GameFruit) => {
+            if ((fruit.special === 'bomb' || fruit.special === 'ice') && this.triggered.indexOf(fruit) < 0) {
+                this.triggered.push(fruit);
+            }
+        });
+        const special = f1.special ? f1 : f2;
+        const other = special === f1 ? f2 : f1;
+        if (other.special) return null; // Two special items just bounce
+
+        if (special.special === 'rainbow') {
+            // A Rainbow acts as a copy of the fruit it touches
+            const copy: GameFruit = { ...special, typeIndex: other.typeIndex };
+            const result = other.typeIndex < this.theme.fruits.length - 1
+                ? [this.mergeFruits(copy, other)]
+                : this.clearWatermelons(copy, other, fruits);
+            if (result) this.emitSpecial(special, other.x, other.y, 1);
+            return result;
+        }
+        if (special.special === 'shrink') {
+            this.emitSpecial(special, other.x, other.y, 1);
+            if (other.typeIndex === 0) return []; // The smallest fruit vanishes
+            return [{
+                ...this.theme.fruits[other.typeIndex - 1],
+                typeIndex: other.typeIndex - 1,
+                x: other.x,
+                y: other.y,
+                vx: other.vx,
+                vy: other.vy,
+                angle: other.angle,
+                spin: other.spin,
+                rollX: other.rollX,
+                rollY: other.rollY,
+                sleeping: false,
+                restTime: 0,
+                shot: other.shot
+            }];
+        }
+        return null;
+    }
+
+    /**
+     * Sets off the Bombs and Ice fruits that touched a fruit during the step, or came to rest
+     * A Bomb removes the fruits in its reach, an Ice fruit freezes them, both are used up
+     */
+    private setOffSpecials(): void {
+        const due = this.fruits.filter((fruit: GameFruit) => (fruit.special === 'bomb' || fruit.special === 'ice') &&
+            (this.triggered.indexOf(fruit) >= 0 || fruit.vx * fruit.vx + fruit.vy * fruit.vy < SETTLE_SPEED * SETTLE_SPEED));
+        this.triggered = [];
+        due.forEach((special: GameFruit) => {
+            if (this.fruits.indexOf(special) < 0) return; // Removed by an earlier Bomb
+            const reach = special.special === 'bomb' ? BOMB_RADIUS : ICE_RADIUS;
+            const reached = this.fruits.filter((fruit: GameFruit) => {
+                if (fruit === special) return false;
+                const dx = fruit.x - special.x;
+                const dy = fruit.y - special.y;
+                return dx * dx + dy * dy < (reach + fruit.radius) * (reach + fruit.radius);
+            });
+            if (special.special === 'bomb') {
+                this.fruits = this.fruits.filter((fruit: GameFruit) => fruit !== special && reached.indexOf(fruit) < 0);
+            } else {
+                reached.forEach((fruit: GameFruit) => {
+                    fruit.frozen = FREEZE_TIME;
+                    fruit.sleeping = true;
+                    fruit.vx = 0;
+                    fruit.vy = 0;
+                    fruit.rollX = 0;
+                    fruit.rollY = 0;
+                    fruit.spin = 0;
+                });
+                this.fruits = this.fruits.filter((fruit: GameFruit) => fruit !== special);
+            }
+            this.emitSpecial(special, special.x, special.y, reached.length);
+        });
+    }
+
+    /**
+     * Counts down the time frozen fruits have left, and lets the thawed ones move again
+     */
+    private thaw(): void {
+        this.fruits.forEach((fruit: GameFruit) => {
+            if (!fruit.frozen) return;
+            fruit.frozen -= FIXED_TIMESTEP;
+            if (fruit.frozen > 0) return;
+            delete fruit.frozen;
+            this.solver.wake(fruit);
+        });
+    }
+
+    private emitSpecial(special: GameFruit, x: number, y: number, fruits: number): void {
+        this.emit('special', { kind: special.special as SpecialKind, x, y, fruits, player: this.playerOf(special) });
+    }
+
+    /**
+     * Applies the end-of-chain rule to two touching Watermelons
+     * Returns an empty list when they are cleared, null when they stay
+     */
+    private clearWatermelons(f1: GameFruit, f2: GameFruit, fruits: GameFruit[]): GameFruit[] | null {
+        if (this.endOfChain === 'keep') return null;
+
+        const x = (f1.x + f2.x) / 2;
+        const y = (f1.y + f2.y) / 2;
+        if (this.endOfChain === 'explode') {
+            // Push every other fruit in range away from the blast, stronger near the center
+            fruits.forEach((fruit: GameFruit) => {
+                if (fruit === f1 || fruit === f2) return;
+                const dx = fruit.x - x;
+                const dy = fruit.y - y;
+                const distance = Math.sqrt(dx * dx + dy * dy);
+                if (distance >= EXPLOSION_RADIUS || distance === 0) return;
+                const speed = EXPLOSION_SPEED * (1 - distance / EXPLOSION_RADIUS);
+                fruit.vx += (dx / distance) * speed;
+                fruit.vy += (dy / distance) * speed;
+                this.solver.wake(fruit);
+            });
+        }
+
+        const player = this.playerOf(f1.shot > f2.shot ? f1 : f2);
+        this.watermelonClears++;
+        this.emit('clear', {
+            rule: this.endOfChain,
+            x,
+            y,
+            points: WATERMELON_CLEAR_BONUS,
+            clears: this.watermelonClears,
+            player
+        });
+        this.award(player, WATERMELON_CLEAR_BONUS);
+        return [];
+    }
+
+    /**
+     * Merges two touching fruits of the same type into the next type
+     */
+    private mergeFruits(f1: GameFruit, f2: GameFruit): GameFruit {
+        const newTypeIndex = f1.typeIndex + 1;
+        const newFruitType: FruitType = this.theme.fruits[newTypeIndex];
+
+        // Calculate merged fruit velocity using momentum conservation
+        const m1 = f1.radius;
+        const m2 = f2.radius;
+        const newMass = newFruitType.radius;
+        const newVx = ((m1 * f1.vx + m2 * f2.vx) / newMass) * 0.5;
+        const newVy = ((m1 * f1.vy + m2 * f2.vy) / newMass) * 0.5;
+
+        // Create the new merged fruit
+        const newFruit: GameFruit = {
+            ...newFruitType,
+            x: (f1.x + f2.x) / 2,  // Position between the two fruits
+            y: (f1.y + f2.y) / 2,
+            vx: newVx,
+            vy: newVy,
+            typeIndex: newTypeIndex,
+            angle: 0,
+            spin: 0,
+            rollX: newVx,  // Rolling along, without spin of its own
+            rollY: newVy,
+            sleeping: false,
+            restTime: 0,
+            shot: Math.max(f1.shot, f2.shot) // The latest launch caused the merge
+        };
+
+        // Merges in quick succession form a chain that multiplies the score
+        const time = this.frame * FIXED_TIMESTEP;
+        const combo = this.combo.register(time);
+        const multiplier = comboMultiplier(combo);
+        const points = Math.round(newFruitType.score * multiplier);
+        const player = this.playerOf(newFruit);
+        this.emit('merge', {
+            fruit: newFruit,
+            rank: newFruitType.rank,
+            x: newFruit.x,
+            y: newFruit.y,
+            frame: this.frame,
+            time,
+            combo,
+            multiplier,
+            points,
+            player
+        });
+        this.emit('combo', { count: combo, multiplier });
+
+        // Update the score of the player whose launch caused the merge
+        this.award(player, points);
+        return newFruit;
+    }
+}